@@ -0,0 +1,656 @@
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { editionsToAtom } from "../src/editionFormats";
+import { parseRecipients, renderEmailDigest } from "../src/emailDigest";
+import { parseOnboardingOffline } from "../src/onboarding";
+import { normalizePreferences } from "../src/preferences";
+import { describeProfileEdit, normalizeProfileEdit } from "../src/profileEdits";
+import type { Edition, ReaderProfile } from "../src/types";
+import { assertFetchableUrl, fetchLimited, isFileProxyError, parseHostList } from "./fileProxy.js";
+import { requestOpenAiImage } from "./images.js";
+import { MANUS_API_BASE } from "./manus.js";
+import type { Scheduler } from "./scheduler.js";
+import { sendMail, smtpSettings } from "./smtp.js";
+
+export type ServerEnv = Record<string, string | undefined>;
+
+export type ApiHandler = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+const MANUS_API_MOUNT = "/manus-api";
+// Only the task endpoints the app uses are forwarded, so the proxy can't reach the rest of the Manus API.
+const MANUS_API_ROUTES: { method: string; path: RegExp }[] = [
+  { method: "POST", path: /^\/v1\/tasks$/ },
+  { method: "GET", path: /^\/v1\/tasks\/[\w-]+$/ },
+  { method: "DELETE", path: /^\/v1\/tasks\/[\w-]+$/ },
+];
+const MANUS_EVENT_BACKLOG = 50;
+const MANUS_EVENT_TASKS = 100;
+const SSE_HEARTBEAT_MS = 25000;
+const FEED_EDITIONS = 20;
+const DEFAULT_LLM_MODEL = "llama3.1";
+const DELIVERY_SECRET_HEADER = "x-delivery-secret";
+
+export function readBody(req: IncomingMessage) {
+  return new Promise<string>((resolve) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => resolve(raw));
+  });
+}
+
+export function sendJson(res: ServerResponse, statusCode: number, payload: unknown) {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(payload));
+}
+
+/**
+ * API routes shared by the Vite dev server and the production server, keyed by mount path.
+ * Handlers accept req.url with or without the mount prefix, since Connect strips it and
+ * the production server does not.
+ */
+export function createApiRoutes(env: ServerEnv, scheduler: Scheduler): Record<string, ApiHandler> {
+  const openAiKey = env.OPENAI_API_KEY;
+  const elevenKey = env.ELEVENLABS_API_KEY;
+  const elevenVoiceId = env.ELEVENLABS_VOICE_ID;
+  const manusKey = env.MANUS_API_KEY;
+  const manusWebhookSecret = env.MANUS_WEBHOOK_SECRET;
+  const manusFileHosts = parseHostList(env.MANUS_FILE_HOSTS);
+  const llmBase = (env.LLM_BASE_URL || "").replace(/\/$/, "");
+  const llmKey = env.LLM_API_KEY;
+  const llmModel = env.LLM_MODEL || DEFAULT_LLM_MODEL;
+  const smtp = smtpSettings(env);
+  const deliverySecret = env.DELIVERY_SECRET;
+  const allowedRecipients = parseAddressList(env.SMTP_ALLOWED_RECIPIENTS);
+  const appUrl = env.APP_URL?.trim() || undefined;
+
+  // The delivery routes send mail and hold the reader's addresses and editions, so they need the
+  // shared secret: as a header from the app, or as ?token= from feed readers, which cannot set one.
+  const deliveryAuthorized = (req: IncomingMessage, res: ServerResponse) => {
+    const supplied = req.headers[DELIVERY_SECRET_HEADER] ?? new URL(req.url ?? "", "http://localhost").searchParams.get("token");
+    if (secretMatches(deliverySecret, supplied)) return true;
+    sendJson(res, 403, { error: deliverySecret ? "Wrong delivery secret" : "Missing DELIVERY_SECRET" });
+    return false;
+  };
+
+  // Manus webhook events keyed by task id; replayed to late subscribers.
+  const manusBacklog = new Map<string, string[]>();
+  const manusSubscribers = new Map<string, Set<ServerResponse>>();
+  const publishManusEvent = (taskId: string, payload: Record<string, unknown>) => {
+    const line = `data: ${JSON.stringify(payload)}\n\n`;
+    const backlog = manusBacklog.get(taskId) ?? [];
+    backlog.push(line);
+    if (backlog.length > MANUS_EVENT_BACKLOG) backlog.shift();
+    manusBacklog.delete(taskId);
+    manusBacklog.set(taskId, backlog);
+    if (manusBacklog.size > MANUS_EVENT_TASKS) {
+      const oldest = manusBacklog.keys().next().value;
+      if (oldest) manusBacklog.delete(oldest);
+    }
+    manusSubscribers.get(taskId)?.forEach((subscriber) => subscriber.write(line));
+  };
+
+  const manusStatus: ApiHandler = (req, res) => {
+    if (req.method !== "GET") {
+      res.statusCode = 405;
+      res.end("Method not allowed");
+      return;
+    }
+    sendJson(res, 200, { available: !!manusKey, webhooks: !!manusWebhookSecret });
+  };
+
+  const manusApi: ApiHandler = async (req, res) => {
+    try {
+      if (!manusKey) {
+        sendJson(res, 503, { error: "Missing MANUS_API_KEY" });
+        return;
+      }
+      const url = new URL(req.url ?? "", "http://localhost");
+      // Connect strips the mount path in dev; the production server passes the full path.
+      const path = url.pathname.startsWith(MANUS_API_MOUNT) ? url.pathname.slice(MANUS_API_MOUNT.length) : url.pathname;
+      const method = req.method ?? "GET";
+      if (!MANUS_API_ROUTES.some((route) => route.method === method && route.path.test(path))) {
+        sendJson(res, 404, { error: "Unsupported Manus endpoint" });
+        return;
+      }
+      const body = method === "POST" ? await readBody(req) : undefined;
+      const response = await fetch(`${MANUS_API_BASE}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          API_KEY: manusKey,
+        },
+        body,
+      });
+      res.statusCode = response.status;
+      res.setHeader("Content-Type", response.headers.get("content-type") || "application/json; charset=utf-8");
+      res.end(await response.text());
+    } catch {
+      sendJson(res, 502, { error: "Manus proxy error" });
+    }
+  };
+
+  const manusWebhook: ApiHandler = async (req, res) => {
+    try {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      const url = new URL(req.url ?? "", "http://localhost");
+      if (!manusWebhookSecret || url.searchParams.get("token") !== manusWebhookSecret) {
+        res.statusCode = 403;
+        res.end("Forbidden");
+        return;
+      }
+      const body = await readBody(req);
+      const parsed = body ? JSON.parse(body) : {};
+      const detail = parsed?.task_detail || parsed?.progress_detail || {};
+      const taskId = detail?.task_id || parsed?.task_id;
+      if (!taskId) {
+        sendJson(res, 400, { error: "Missing task id" });
+        return;
+      }
+      publishManusEvent(String(taskId), {
+        type: parsed?.event_type || "unknown",
+        taskId: String(taskId),
+        message: detail?.message || "",
+        stopReason: detail?.stop_reason,
+      });
+      sendJson(res, 200, { ok: true });
+    } catch {
+      sendJson(res, 500, { error: "Webhook error" });
+    }
+  };
+
+  const manusEvents: ApiHandler = (req, res) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    const taskId = url.searchParams.get("task");
+    if (!taskId) {
+      res.statusCode = 400;
+      res.end("Missing task");
+      return;
+    }
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.write("retry: 3000\n\n");
+    res.write(`data: ${JSON.stringify({ type: "ready", webhooks: !!manusWebhookSecret })}\n\n`);
+    manusBacklog.get(taskId)?.forEach((line) => res.write(line));
+    const subscribers = manusSubscribers.get(taskId) ?? new Set<ServerResponse>();
+    subscribers.add(res);
+    manusSubscribers.set(taskId, subscribers);
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      subscribers.delete(res);
+      if (!subscribers.size) manusSubscribers.delete(taskId);
+    });
+  };
+
+  const llmStatus: ApiHandler = (req, res) => {
+    if (req.method !== "GET") {
+      res.statusCode = 405;
+      res.end("Method not allowed");
+      return;
+    }
+    sendJson(res, 200, { available: !!llmBase, model: llmBase ? llmModel : null });
+  };
+
+  // Chat completions for the browser's chat-model backend. The key and the model are the server's.
+  const llmApi: ApiHandler = async (req, res) => {
+    try {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      if (!llmBase) {
+        sendJson(res, 503, { error: "Missing LLM_BASE_URL" });
+        return;
+      }
+      const body = await readBody(req);
+      const parsed = body ? JSON.parse(body) : {};
+      if (!Array.isArray(parsed?.messages)) {
+        sendJson(res, 400, { error: "Missing messages" });
+        return;
+      }
+      const response = await fetch(`${llmBase}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(llmKey ? { Authorization: `Bearer ${llmKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: llmModel,
+          temperature: typeof parsed.temperature === "number" ? parsed.temperature : undefined,
+          messages: parsed.messages,
+        }),
+      });
+      res.statusCode = response.status;
+      res.setHeader("Content-Type", response.headers.get("content-type") || "application/json; charset=utf-8");
+      res.end(await response.text());
+    } catch {
+      sendJson(res, 502, { error: "Chat model proxy error" });
+    }
+  };
+
+  const aiImage: ApiHandler = async (req, res) => {
+    try {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      if (!openAiKey) {
+        sendJson(res, 500, { error: "Missing OPENAI_API_KEY" });
+        return;
+      }
+      const body = await readBody(req);
+      const parsed = body ? JSON.parse(body) : {};
+      const prompt = parsed?.prompt;
+      if (!prompt) {
+        sendJson(res, 400, { error: "Missing prompt" });
+        return;
+      }
+      const result = await requestOpenAiImage(openAiKey, prompt);
+      sendJson(res, result.url ? 200 : 500, result);
+    } catch {
+      sendJson(res, 500, { error: "AI image error" });
+    }
+  };
+
+  const aiOnboarding: ApiHandler = async (req, res) => {
+    try {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      const body = await readBody(req);
+      const parsed = body ? JSON.parse(body) : {};
+      const text = parsed?.text;
+      if (!text) {
+        sendJson(res, 400, { error: "Missing text" });
+        return;
+      }
+      const existing = parsed?.existing || {};
+      // Onboarding still works without a key, on keywords alone.
+      if (!openAiKey) {
+        sendJson(res, 200, parseOnboardingOffline(String(text), existing));
+        return;
+      }
+      const response = await fetch("https://api.openai.com/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${openAiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "gpt-4o-mini",
+          temperature: 0.2,
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "system",
+              content:
+                "You extract a user's preferred news region and topics. Respond only in JSON with keys: location (string or null), topics (array of strings or empty array), missing (array containing 'location' and/or 'topics'), followupQuestion (string or null). If uncertain, mark as missing and ask a single follow-up question.",
+            },
+            {
+              role: "user",
+              content: `User reply: ${text}\nExisting location: ${existing.location || ""}\nExisting topics: ${existing.topics || ""}`,
+            },
+          ],
+        }),
+      });
+      const data = (await response.json().catch(() => ({}))) as Record<string, any>;
+      const content = data?.choices?.[0]?.message?.content || "{}";
+      let parsedContent = {};
+      try {
+        parsedContent = JSON.parse(content);
+      } catch {
+        parsedContent = { location: null, topics: [], missing: ["location", "topics"], followupQuestion: null };
+      }
+      sendJson(res, response.ok ? 200 : 500, response.ok ? parsedContent : { error: data?.error?.message || "LLM error" });
+    } catch {
+      sendJson(res, 500, { error: "Onboarding LLM error" });
+    }
+  };
+
+  // Turns "add crypto, drop sports, focus on Penang" into a ProfileEdit against the profile sent along.
+  const aiProfileEdit: ApiHandler = async (req, res) => {
+    try {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      if (!openAiKey) {
+        sendJson(res, 500, { error: "Missing OPENAI_API_KEY" });
+        return;
+      }
+      const body = await readBody(req);
+      const parsed = body ? JSON.parse(body) : {};
+      const text = typeof parsed?.text === "string" ? parsed.text.trim() : "";
+      if (!text) {
+        sendJson(res, 400, { error: "Missing text" });
+        return;
+      }
+      const profile: ReaderProfile = {
+        location: typeof parsed?.profile?.location === "string" ? parsed.profile.location : "",
+        topics: typeof parsed?.profile?.topics === "string" ? parsed.profile.topics : "",
+        preferences: normalizePreferences(parsed?.profile?.preferences),
+      };
+      const response = await fetch("https://api.openai.com/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${openAiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "gpt-4o-mini",
+          temperature: 0.1,
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "system",
+              content: [
+                "You edit a reader's news profile from a short request. Respond only in JSON with these keys, leaving out any the request does not change:",
+                "location (string: the new region, 'Global' for no region), addTopics and removeTopics (arrays of topics to follow or stop following),",
+                "excludeTopics and includeTopics (arrays of topics to keep out of the paper entirely, or to allow again),",
+                "blockDomains, unblockDomains, preferDomains, unpreferDomains (arrays of site hostnames),",
+                "language (string; empty string for any language), storyCount (integer 5-30), recencyDays (integer 1-30),",
+                "categoryWeights (object mapping Local, International, Interest or Social to 0 off, 1 some, 2 more, 3 most),",
+                "followupQuestion (string, only when the request is unclear).",
+                "'Focus on' a place sets location. 'Drop' or 'remove' a followed topic removes it; 'no more' or 'never show' a subject excludes it.",
+              ].join(" "),
+            },
+            {
+              role: "user",
+              content: `Request: ${text}\nCurrent profile: ${JSON.stringify(profile)}`,
+            },
+          ],
+        }),
+      });
+      const data = (await response.json().catch(() => ({}))) as Record<string, any>;
+      if (!response.ok) {
+        sendJson(res, 500, { error: data?.error?.message || "LLM error" });
+        return;
+      }
+      let content: Record<string, any> = {};
+      try {
+        content = JSON.parse(data?.choices?.[0]?.message?.content || "{}");
+      } catch {
+        content = {};
+      }
+      const edit = normalizeProfileEdit(content, profile);
+      sendJson(res, 200, {
+        edit,
+        changes: describeProfileEdit(edit),
+        followupQuestion:
+          typeof content.followupQuestion === "string" && content.followupQuestion.trim() ? content.followupQuestion.trim() : null,
+      });
+    } catch {
+      sendJson(res, 500, { error: "Profile edit LLM error" });
+    }
+  };
+
+  const manusFile: ApiHandler = async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "", "http://localhost");
+      const target = await assertFetchableUrl(url.searchParams.get("url"), manusFileHosts);
+      const file = await fetchLimited(target);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Security-Policy", "sandbox");
+      res.statusCode = file.status >= 200 && file.status < 300 ? 200 : file.status;
+      res.end(file.body);
+    } catch (error) {
+      res.statusCode = isFileProxyError(error) ? error.statusCode : 500;
+      res.end(isFileProxyError(error) ? error.message : "File proxy error");
+    }
+  };
+
+  // Lets the client pick a speech provider without a failing TTS or ASR call.
+  const speechStatus: ApiHandler = (req, res) => {
+    if (req.method !== "GET") {
+      res.statusCode = 405;
+      res.end("Method not allowed");
+      return;
+    }
+    sendJson(res, 200, { tts: !!elevenKey && !!elevenVoiceId, asr: !!elevenKey });
+  };
+
+  const elevenTts: ApiHandler = async (req, res) => {
+    try {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      if (!elevenKey || !elevenVoiceId) {
+        sendJson(res, 500, { error: "Missing ELEVENLABS_API_KEY or ELEVENLABS_VOICE_ID" });
+        return;
+      }
+      const body = await readBody(req);
+      const parsed = body ? JSON.parse(body) : {};
+      const text = parsed?.text;
+      if (!text) {
+        sendJson(res, 400, { error: "Missing text" });
+        return;
+      }
+      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${elevenVoiceId}`, {
+        method: "POST",
+        headers: {
+          "xi-api-key": elevenKey,
+          "Content-Type": "application/json",
+          Accept: "audio/mpeg",
+        },
+        body: JSON.stringify({
+          text,
+          model_id: "eleven_turbo_v2_5",
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as Record<string, any>;
+        sendJson(res, 500, { error: data?.detail || "TTS failed" });
+        return;
+      }
+      const arrayBuffer = await response.arrayBuffer();
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "audio/mpeg");
+      res.end(Buffer.from(arrayBuffer));
+    } catch {
+      sendJson(res, 500, { error: "TTS proxy error" });
+    }
+  };
+
+  const elevenAsr: ApiHandler = async (req, res) => {
+    try {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      if (!elevenKey) {
+        sendJson(res, 500, { error: "Missing ELEVENLABS_API_KEY" });
+        return;
+      }
+      const contentType = req.headers["content-type"] || "application/octet-stream";
+      const chunks: Buffer[] = [];
+      await new Promise<void>((resolve) => {
+        req.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+        req.on("end", () => resolve());
+      });
+      const response = await fetch("https://api.elevenlabs.io/v1/speech-to-text", {
+        method: "POST",
+        headers: {
+          "xi-api-key": elevenKey,
+          "Content-Type": contentType,
+        },
+        body: Buffer.concat(chunks),
+      });
+      const data = (await response.json().catch(() => ({}))) as Record<string, any>;
+      if (!response.ok) {
+        sendJson(res, 500, { error: data?.detail || "ASR failed" });
+        return;
+      }
+      sendJson(res, 200, { text: data?.text || "" });
+    } catch {
+      sendJson(res, 500, { error: "ASR proxy error" });
+    }
+  };
+
+  const schedule: ApiHandler = async (req, res) => {
+    try {
+      if (!deliveryAuthorized(req, res)) return;
+      if (req.method === "GET") {
+        sendJson(res, 200, await scheduler.getState());
+        return;
+      }
+      if (req.method !== "PUT") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      const body = await readBody(req);
+      const input = body ? JSON.parse(body) : {};
+      const emailTo = parseRecipients(input?.emailTo ?? []) ?? [];
+      if (allowedRecipients.length && emailTo.some((address) => !allowedRecipients.includes(address.toLowerCase()))) {
+        sendJson(res, 400, { error: "emailTo may only use addresses in SMTP_ALLOWED_RECIPIENTS" });
+        return;
+      }
+      const result = await scheduler.updateSchedule(input);
+      if (!result.state) {
+        sendJson(res, 400, { error: result.error });
+        return;
+      }
+      sendJson(res, 200, result.state);
+    } catch {
+      sendJson(res, 500, { error: "Schedule error" });
+    }
+  };
+
+  const scheduledEditions: ApiHandler = async (req, res) => {
+    if (req.method !== "GET") {
+      res.statusCode = 405;
+      res.end("Method not allowed");
+      return;
+    }
+    if (!deliveryAuthorized(req, res)) return;
+    const url = new URL(req.url ?? "", "http://localhost");
+    sendJson(res, 200, { editions: await scheduler.listEditions(url.searchParams.get("after")) });
+  };
+
+  // Scheduled editions are the ones the server holds, so they are what feed readers can subscribe to.
+  const feed: ApiHandler = async (req, res) => {
+    if (req.method !== "GET") {
+      res.statusCode = 405;
+      res.end("Method not allowed");
+      return;
+    }
+    if (!deliveryAuthorized(req, res)) return;
+    const origin = `${req.headers["x-forwarded-proto"] ?? "http"}://${req.headers.host ?? "localhost"}`;
+    const url = new URL(req.url ?? "", origin);
+    const profileId = url.searchParams.get("profile");
+    const editions = (await scheduler.listEditions())
+      .filter((edition) => !profileId || edition.profileId === profileId)
+      .slice(-FEED_EDITIONS);
+    const newest = editions[editions.length - 1];
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "application/atom+xml; charset=utf-8");
+    res.end(
+      editionsToAtom(editions, {
+        feedUrl: `${origin}/feed.atom${url.search}`,
+        siteUrl: `${origin}/`,
+        title: newest ? `Daily briefing: ${newest.profile.topics}` : "Daily briefing",
+      })
+    );
+  };
+
+  // GET reports whether SMTP is configured; POST emails the given edition as a test digest to the
+  // schedule's saved addresses or ones in SMTP_ALLOWED_RECIPIENTS.
+  const emailDigest: ApiHandler = async (req, res) => {
+    if (req.method === "GET") {
+      sendJson(res, 200, { configured: !!smtp, server: smtp ? `${smtp.host}:${smtp.port}` : null, from: smtp?.from ?? null });
+      return;
+    }
+    if (req.method !== "POST") {
+      res.statusCode = 405;
+      res.end("Method not allowed");
+      return;
+    }
+    if (!deliveryAuthorized(req, res)) return;
+    if (!smtp) {
+      sendJson(res, 503, { error: "Missing SMTP_HOST" });
+      return;
+    }
+    let payload: { to?: unknown; edition?: Edition };
+    try {
+      payload = JSON.parse((await readBody(req)) || "{}");
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON" });
+      return;
+    }
+    const to = parseRecipients(payload.to);
+    const edition = payload.edition;
+    if (!to?.length) {
+      sendJson(res, 400, { error: "Missing or invalid recipient address" });
+      return;
+    }
+    const saved = ((await scheduler.getState()).schedule?.emailTo ?? []).map((address) => address.toLowerCase());
+    if (to.some((address) => ![...saved, ...allowedRecipients].includes(address.toLowerCase()))) {
+      sendJson(res, 403, { error: "Save these addresses in the schedule before sending them a test digest" });
+      return;
+    }
+    if (typeof edition?.summary !== "string" || !Array.isArray(edition.items) || typeof edition.profile?.topics !== "string") {
+      sendJson(res, 400, { error: "Missing edition" });
+      return;
+    }
+    try {
+      await sendMail(smtp, { to, ...renderEmailDigest(edition, appUrl) });
+      sendJson(res, 200, { ok: true, to });
+    } catch (error) {
+      sendJson(res, 502, { error: error instanceof Error ? error.message : "Email error" });
+    }
+  };
+
+  return {
+    "/manus-status": manusStatus,
+    [MANUS_API_MOUNT]: manusApi,
+    "/manus-webhook": manusWebhook,
+    "/manus-events": manusEvents,
+    "/llm-status": llmStatus,
+    "/llm-api": llmApi,
+    "/ai-image": aiImage,
+    "/ai-onboarding": aiOnboarding,
+    "/ai-profile-edit": aiProfileEdit,
+    "/manus-file": manusFile,
+    "/eleven-tts": elevenTts,
+    "/eleven-asr": elevenAsr,
+    "/speech-status": speechStatus,
+    "/schedule": schedule,
+    "/scheduled-editions": scheduledEditions,
+    "/feed.atom": feed,
+    "/email-digest": emailDigest,
+  };
+}
+
+/** Compares in constant time, so the secret cannot be guessed from how long a refusal takes. */
+function secretMatches(expected: string | undefined, supplied: unknown) {
+  if (!expected || typeof supplied !== "string") return false;
+  const expectedBytes = Buffer.from(expected);
+  const suppliedBytes = Buffer.from(supplied);
+  return expectedBytes.length === suppliedBytes.length && timingSafeEqual(expectedBytes, suppliedBytes);
+}
+
+/** Comma- or space-separated addresses, lower-cased for comparison. */
+function parseAddressList(value: string | undefined) {
+  return (value ?? "")
+    .split(/[,;\s]+/)
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
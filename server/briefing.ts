@@ -0,0 +1,124 @@
+import { randomUUID } from "node:crypto";
+import { dedupeStories } from "../src/dedupe";
+import { rankByInterest } from "../src/interests";
+import { generateAiMedia } from "../src/media";
+import { applyPreferences, normalizePreferences } from "../src/preferences";
+import { buildNewsPrompt, parseBrief, RESEARCH_SYSTEM_PROMPT } from "../src/news";
+import { buildDemoBrief } from "../src/research/demo";
+import { extractManusText, pickManusAttachment, readAttachmentText } from "../src/research/manusFiles";
+import type { AppendLog, Edition, LogLine, NamedProfile, NewsBrief, ReaderProfile } from "../src/types";
+import { throwIfAborted, wait } from "../src/utils";
+import type { ServerEnv } from "./api.js";
+import { assertFetchableUrl, fetchLimited, parseHostList } from "./fileProxy.js";
+import { requestOpenAiImage } from "./images.js";
+import { cancelManusTask, createManusTask, getManusTask } from "./manus.js";
+
+const MANUS_POLL_INTERVAL_MS = 10000;
+const MANUS_MAX_POLL_MS = 10 * 60 * 1000;
+
+/**
+ * Runs the same pipeline as a manual refresh (prompt, Manus, parse, dedupe, images) without a
+ * browser, and returns the finished edition with its trace.
+ */
+export async function runBriefing(env: ServerEnv, profile: NamedProfile, scheduledFor: string, signal?: AbortSignal) {
+  const trace: LogLine[] = [];
+  const appendLog: AppendLog = (message, meta = "") => {
+    trace.push({ id: `${Date.now()}-${Math.random()}`, ts: new Date().toLocaleTimeString(), meta, message });
+  };
+  appendLog(`Scheduled brief for ${profile.topics}.`, "schedule");
+
+  const backend = env.MANUS_API_KEY ? "manus" : "demo";
+  let brief: NewsBrief;
+  if (env.MANUS_API_KEY) {
+    brief = await researchWithManus(env, profile, appendLog, signal);
+  } else {
+    appendLog("MANUS_API_KEY is not set on the server; using the demo brief.", "mode");
+    brief = buildDemoBrief(profile);
+  }
+
+  const deduped = dedupeStories(brief.items);
+  if (deduped.duplicates) {
+    appendLog(`Merged ${deduped.duplicates} duplicate stor${deduped.duplicates === 1 ? "y" : "ies"}.`, "dedupe");
+  }
+  const preferred = applyPreferences(deduped.items, normalizePreferences(profile.preferences), appendLog);
+  const ranked = rankByInterest(preferred, profile, appendLog);
+  const items = await generateAiMedia(ranked, profile, appendLog, signal, (prompt, imageSignal) =>
+    requestOpenAiImage(env.OPENAI_API_KEY, prompt, imageSignal)
+  );
+  throwIfAborted(signal);
+  appendLog("Scheduled edition ready.", "schedule");
+
+  const createdAt = new Date().toISOString();
+  const edition: Edition = {
+    id: `${createdAt}-${randomUUID().slice(0, 6)}`,
+    createdAt,
+    profileId: profile.id || undefined,
+    profile: { location: profile.location, topics: profile.topics, preferences: profile.preferences },
+    summary: brief.summary,
+    items,
+    trace,
+    backend,
+    scheduledFor,
+  };
+  return edition;
+}
+
+async function researchWithManus(env: ServerEnv, profile: ReaderProfile, appendLog: AppendLog, signal?: AbortSignal) {
+  const apiKey = env.MANUS_API_KEY as string;
+  appendLog("Creating Manus task...", "manus");
+  const taskId = await createManusTask(apiKey, `${RESEARCH_SYSTEM_PROMPT}\n\n${buildNewsPrompt(profile)}`, signal);
+  appendLog(`Task created: ${taskId}. Waiting for progress...`, "manus");
+
+  const deadline = Date.now() + MANUS_MAX_POLL_MS;
+  try {
+    for (;;) {
+      await wait(MANUS_POLL_INTERVAL_MS, signal);
+      const task = await getManusTask(apiKey, taskId, signal).catch((error) => {
+        throwIfAborted(signal);
+        appendLog(`Poll failed (${error instanceof Error ? error.message : "unknown error"}); continuing`, "manus");
+        return null;
+      });
+      if (task?.status === "failed") throw new Error(task.error || "Task failed");
+      if (task?.status === "completed") {
+        appendLog("Task completed.", "manus");
+        const messageText = extractManusText(task);
+        const fileText = await readManusAttachment(env, task, messageText, appendLog);
+        const parsed = parseBrief(fileText || messageText);
+        appendLog(`Parsed brief as ${parsed.format} (${parsed.note}).`, "parser");
+        return parsed;
+      }
+      if (Date.now() > deadline) throw new Error("Timed out waiting for Manus");
+    }
+  } catch (error) {
+    // A task given up on keeps running, and using credits, until it is stopped.
+    if (signal?.aborted || Date.now() > deadline) {
+      appendLog(`Stopping Manus task ${taskId}...`, "cancel");
+      await cancelManusTask(apiKey, taskId).then(
+        () => appendLog(`Manus task ${taskId} stopped.`, "manus"),
+        () => appendLog(`Could not stop Manus task ${taskId}; abandoning it.`, "manus")
+      );
+    }
+    throw error;
+  }
+}
+
+/** Same rules as /manus-file: allowlisted hosts, public addresses only, size and time limits. */
+async function readManusAttachment(env: ServerEnv, task: unknown, summary: string, appendLog: AppendLog) {
+  const attachment = pickManusAttachment(task);
+  if (!attachment) return "";
+  try {
+    const target = await assertFetchableUrl(attachment.url, parseHostList(env.MANUS_FILE_HOSTS));
+    const file = await fetchLimited(target);
+    if (file.status < 200 || file.status >= 300) {
+      appendLog(`Failed to fetch Manus file ${attachment.name} (${file.status})`, "manus");
+      return "";
+    }
+    const read = readAttachmentText(attachment, file.body.toString("utf8"), file.contentType, summary);
+    appendLog(`Read ${read.kind} attachment ${attachment.name}.`, "manus");
+    return read.text;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown file fetch error";
+    appendLog(`Manus file fetch error (${message})`, "manus");
+    return "";
+  }
+}
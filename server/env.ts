@@ -0,0 +1,20 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import type { ServerEnv } from "./api.js";
+
+/** Mirrors Vite's env file order for production; real environment variables always win. */
+export function loadServerEnv(root: string, mode = "production"): ServerEnv {
+  const files = [".env", ".env.local", `.env.${mode}`, `.env.${mode}.local`];
+  const fromFiles: ServerEnv = {};
+  for (const file of files) {
+    const fullPath = path.join(root, file);
+    if (!existsSync(fullPath)) continue;
+    for (const line of readFileSync(fullPath, "utf8").split(/\r?\n/)) {
+      const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)?\s*$/);
+      if (!match) continue;
+      const value = (match[2] ?? "").trim().replace(/^(['"])(.*)\1$/, "$2");
+      fromFiles[match[1]] = value;
+    }
+  }
+  return { ...fromFiles, ...process.env };
+}
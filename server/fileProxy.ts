@@ -0,0 +1,183 @@
+import { lookup as lookupCallback } from "node:dns";
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import type { IncomingMessage } from "node:http";
+import { request } from "node:https";
+import { isIP } from "node:net";
+import type { LookupFunction } from "node:net";
+
+export const DEFAULT_MANUS_FILE_HOSTS = ["manuscdn.com", "manus.im", "manus.ai", "manus.space"];
+export const MANUS_FILE_MAX_BYTES = 5 * 1024 * 1024;
+export const MANUS_FILE_TIMEOUT_MS = 15000;
+
+export type FileProxyError = Error & { statusCode: number };
+
+export type LimitedFile = { status: number; contentType: string; body: Buffer };
+
+const INTERNAL_ADDRESS = "Host resolves to an internal address";
+
+export function fileProxyError(message: string, statusCode: number): FileProxyError {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+export function isFileProxyError(error: unknown): error is FileProxyError {
+  return error instanceof Error && typeof (error as FileProxyError).statusCode === "number";
+}
+
+export function parseHostList(raw: string | undefined) {
+  if (!raw) return DEFAULT_MANUS_FILE_HOSTS;
+  return raw
+    .split(",")
+    .map((host) => host.trim().toLowerCase().replace(/^\*?\./, ""))
+    .filter(Boolean);
+}
+
+/** Exact host or any subdomain of an allowlisted host. */
+export function isAllowedHost(hostname: string, allowlist: string[]) {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return allowlist.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/** Loopback, private, link-local, shared, documentation, benchmarking and multicast ranges, including IPv4 inside IPv6. */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    const [a, b, c] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      (a === 198 && b === 51 && c === 100) ||
+      (a === 203 && b === 0 && c === 113) ||
+      a >= 224
+    );
+  }
+  if (version === 6) {
+    const groups = expandIPv6(address);
+    const embedded = () => [groups[6] >> 8, groups[6] & 255, groups[7] >> 8, groups[7] & 255].join(".");
+    // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) reach the IPv4 address in their last 32 bits.
+    if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) return isPrivateAddress(embedded());
+    if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+      return isPrivateAddress(embedded());
+    }
+    return (
+      groups.slice(0, 7).every((group) => group === 0) ||
+      (groups[0] === 0x64 && groups[1] === 0xff9b && groups[2] === 1) ||
+      (groups[0] & 0xfe00) === 0xfc00 ||
+      (groups[0] & 0xffc0) === 0xfe80 ||
+      (groups[0] & 0xff00) === 0xff00
+    );
+  }
+  return true;
+}
+
+/** The eight 16-bit groups of an IPv6 address, with "::" filled in and a dotted IPv4 tail converted. */
+function expandIPv6(address: string) {
+  let text = address.toLowerCase().replace(/%.*$/, "");
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part?: string) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail);
+  return [...start, ...Array<number>(8 - start.length - end.length).fill(0), ...end];
+}
+
+/** Rejects anything but an https URL on an allowlisted host that resolves only to public addresses. */
+export async function assertFetchableUrl(raw: string | null, allowlist: string[]) {
+  let target: URL;
+  try {
+    target = new URL(raw ?? "");
+  } catch {
+    throw fileProxyError("Invalid url", 400);
+  }
+  if (target.protocol !== "https:") throw fileProxyError("Only https URLs are allowed", 400);
+  if (target.username || target.password) throw fileProxyError("Credentials in URL are not allowed", 400);
+  if (target.port && target.port !== "443") throw fileProxyError("Non-standard ports are not allowed", 400);
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname)) throw fileProxyError("IP address hosts are not allowed", 403);
+  if (!isAllowedHost(hostname, allowlist)) throw fileProxyError("Host is not allowed", 403);
+  const addresses = await lookup(hostname, { all: true }).catch(() => {
+    throw fileProxyError("Host did not resolve", 502);
+  });
+  if (!addresses.length || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw fileProxyError(INTERNAL_ADDRESS, 403);
+  }
+  return target;
+}
+
+/**
+ * Fetches without following redirects, enforcing a time limit and a byte cap on the body. The
+ * connection resolves the host again through publicLookup, so a host that answered assertFetchableUrl
+ * with a public address cannot hand the socket an internal one.
+ */
+export function fetchLimited(target: URL, maxBytes = MANUS_FILE_MAX_BYTES, timeoutMs = MANUS_FILE_TIMEOUT_MS) {
+  return new Promise<LimitedFile>((resolve, reject) => {
+    let settled = false;
+    const settle = (error: unknown, file?: LimitedFile) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (file) resolve(file);
+      else reject(isFileProxyError(error) ? error : fileProxyError("Upstream fetch failed", 502));
+      if (error) req.destroy();
+    };
+    const req = request(target, { headers: { "User-Agent": "Mozilla/5.0" }, lookup: publicLookup }, (response) => {
+      readLimited(response, maxBytes).then((file) => settle(null, file), settle);
+    });
+    const timer = setTimeout(() => settle(fileProxyError("Upstream timed out", 504)), timeoutMs);
+    req.on("error", settle);
+    req.end();
+  });
+}
+
+/** Reads a response body up to maxBytes; redirects are refused rather than followed. */
+export function readLimited(response: IncomingMessage, maxBytes = MANUS_FILE_MAX_BYTES) {
+  return new Promise<LimitedFile>((resolve, reject) => {
+    const fail = (error: FileProxyError) => {
+      response.destroy();
+      reject(error);
+    };
+    const status = response.statusCode ?? 502;
+    if (status >= 300 && status < 400) {
+      fail(fileProxyError("Redirects are not followed", 502));
+      return;
+    }
+    if (Number(response.headers["content-length"]) > maxBytes) {
+      fail(fileProxyError("File is too large", 413));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let received = 0;
+    response.on("data", (chunk: Buffer) => {
+      received += chunk.byteLength;
+      if (received > maxBytes) fail(fileProxyError("File is too large", 413));
+      else chunks.push(chunk);
+    });
+    response.on("end", () =>
+      resolve({ status, contentType: response.headers["content-type"] || "application/octet-stream", body: Buffer.concat(chunks) })
+    );
+    response.on("error", () => reject(fileProxyError("Upstream fetch failed", 502)));
+  });
+}
+
+/** dns.lookup for the connection itself, failing when any address the host gives is internal. */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (!error && (!addresses.length || addresses.some((entry) => isPrivateAddress(entry.address)))) {
+      error = fileProxyError(INTERNAL_ADDRESS, 403) as NodeJS.ErrnoException;
+    }
+    if (error) callback(error, "", 0);
+    else if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -0,0 +1,23 @@
+import type { ImageResult } from "../src/media";
+
+/** Generates one story illustration with OpenAI; shared by /ai-image and scheduled briefings. */
+export async function requestOpenAiImage(apiKey: string | undefined, prompt: string, signal?: AbortSignal): Promise<ImageResult> {
+  if (!apiKey) return { error: "Missing OPENAI_API_KEY" };
+  const response = await fetch("https://api.openai.com/v1/images/generations", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "dall-e-3",
+      prompt,
+      size: "1024x1024",
+    }),
+    signal,
+  });
+  const data = (await response.json().catch(() => ({}))) as Record<string, any>;
+  const url = data?.data?.[0]?.url;
+  if (!response.ok || !url) return { error: data?.error?.message || "AI image request failed" };
+  return { url };
+}
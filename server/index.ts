@@ -0,0 +1,87 @@
+import { createReadStream, existsSync, statSync } from "node:fs";
+import { createServer } from "node:http";
+import type { ServerResponse } from "node:http";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createApiRoutes } from "./api.js";
+import { loadServerEnv } from "./env.js";
+import { createScheduler } from "./scheduler.js";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const DIST = path.join(ROOT, "dist");
+const DEFAULT_PORT = 8080;
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+const env = loadServerEnv(ROOT);
+const scheduler = createScheduler(env, ROOT);
+const routes = Object.entries(createApiRoutes(env, scheduler));
+
+function sendFile(res: ServerResponse, filePath: string, immutable: boolean) {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", MIME_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream");
+  res.setHeader("Cache-Control", immutable ? "public, max-age=31536000, immutable" : "no-cache");
+  createReadStream(filePath).pipe(res);
+}
+
+function resolveStatic(pathname: string) {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+  const filePath = path.resolve(DIST, `.${decoded}`);
+  if (filePath !== DIST && !filePath.startsWith(`${DIST}${path.sep}`)) return null;
+  if (!existsSync(filePath) || !statSync(filePath).isFile()) return null;
+  return filePath;
+}
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  const route = routes.find(([mount]) => pathname === mount || pathname.startsWith(`${mount}/`));
+  if (route) {
+    Promise.resolve(route[1](req, res)).catch(() => {
+      if (!res.headersSent) res.statusCode = 500;
+      res.end();
+    });
+    return;
+  }
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.statusCode = 405;
+    res.end("Method not allowed");
+    return;
+  }
+  const filePath = resolveStatic(pathname);
+  if (filePath) {
+    sendFile(res, filePath, pathname.startsWith("/assets/"));
+    return;
+  }
+  const indexPath = path.join(DIST, "index.html");
+  if (!existsSync(indexPath)) {
+    res.statusCode = 503;
+    res.end("Build not found; run the build first.");
+    return;
+  }
+  // Client-side routes fall back to the app shell.
+  sendFile(res, indexPath, false);
+});
+
+const port = Number(env.PORT) || DEFAULT_PORT;
+server.listen(port, () => {
+  console.log(`Serving ${DIST} on http://localhost:${port}`);
+  scheduler.start();
+});
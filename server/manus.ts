@@ -0,0 +1,41 @@
+export const MANUS_API_BASE = "https://api.manus.ai";
+const MANUS_AGENT_PROFILE = "manus-1.6";
+
+/** Calls the Manus API with the server's key; used by scheduled briefings, which have no browser to proxy for. */
+async function manusRequest(apiKey: string, path: string, init: RequestInit = {}) {
+  const response = await fetch(`${MANUS_API_BASE}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      API_KEY: apiKey,
+    },
+  });
+  if (!response.ok) throw new Error(`Manus ${init.method ?? "GET"} ${path} failed: HTTP ${response.status}`);
+  // DELETE answers with an empty body.
+  return (await response.json().catch(() => ({}))) as Record<string, any>;
+}
+
+export async function createManusTask(apiKey: string, prompt: string, signal?: AbortSignal) {
+  const data = await manusRequest(apiKey, "/v1/tasks", {
+    method: "POST",
+    body: JSON.stringify({
+      prompt,
+      agentProfile: MANUS_AGENT_PROFILE,
+      taskMode: "agent",
+      hideInTaskList: true,
+    }),
+    signal,
+  });
+  const taskId = data.task_id || data.taskId || data.id;
+  if (!taskId) throw new Error("Create task succeeded but no task id returned");
+  return String(taskId);
+}
+
+export function getManusTask(apiKey: string, taskId: string, signal?: AbortSignal) {
+  return manusRequest(apiKey, `/v1/tasks/${taskId}`, { signal });
+}
+
+/** Stops a task so it no longer uses credits. Not given the run's signal, since it is often called once that has fired. */
+export function cancelManusTask(apiKey: string, taskId: string) {
+  return manusRequest(apiKey, `/v1/tasks/${taskId}`, { method: "DELETE" });
+}
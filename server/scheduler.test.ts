@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { DeliverySchedule } from "../src/types";
+import { nextDeliveryAt, planDeliveries } from "./scheduler.js";
+
+function schedule(times: string[], timeZone: string, enabled = true): DeliverySchedule {
+  const profile = { id: "p1", name: "Morning", location: "Penang", topics: "tech" };
+  return { enabled, times, timeZone, profile, updatedAt: "2026-01-01T00:00:00.000Z" };
+}
+
+const at = (iso: string) => Date.parse(iso);
+const isoOf = (slot: number | null) => (slot === null ? null : new Date(slot).toISOString());
+
+describe("nextDeliveryAt", () => {
+  it("finds the next local delivery time in a fixed-offset zone", () => {
+    const daily = schedule(["07:00"], "Asia/Kuala_Lumpur");
+    expect(isoOf(nextDeliveryAt(daily, at("2026-03-02T22:30:00Z")))).toBe("2026-03-02T23:00:00.000Z");
+    expect(isoOf(nextDeliveryAt(daily, at("2026-03-02T23:00:00Z")))).toBe("2026-03-03T23:00:00.000Z");
+  });
+
+  it("handles half-hour offsets", () => {
+    expect(isoOf(nextDeliveryAt(schedule(["06:30"], "Asia/Kolkata"), at("2026-06-01T00:00:00Z")))).toBe("2026-06-01T01:00:00.000Z");
+  });
+
+  it("picks the earliest of several times, on the same local day", () => {
+    const twice = schedule(["19:00", "07:00"], "Europe/London");
+    expect(isoOf(nextDeliveryAt(twice, at("2026-07-01T07:30:00Z")))).toBe("2026-07-01T18:00:00.000Z");
+  });
+
+  it("keeps the local time across the spring-forward change", () => {
+    const daily = schedule(["07:00"], "America/New_York");
+    expect(isoOf(nextDeliveryAt(daily, at("2026-03-07T06:00:00Z")))).toBe("2026-03-07T12:00:00.000Z");
+    expect(isoOf(nextDeliveryAt(daily, at("2026-03-07T12:00:00Z")))).toBe("2026-03-08T11:00:00.000Z");
+  });
+
+  it("keeps the local time across the fall-back change", () => {
+    const daily = schedule(["07:00"], "America/New_York");
+    expect(isoOf(nextDeliveryAt(daily, at("2026-10-31T06:00:00Z")))).toBe("2026-10-31T11:00:00.000Z");
+    expect(isoOf(nextDeliveryAt(daily, at("2026-10-31T11:00:00Z")))).toBe("2026-11-01T12:00:00.000Z");
+  });
+
+  it("follows a southern-hemisphere zone ahead of UTC across its DST change", () => {
+    const daily = schedule(["07:00"], "Pacific/Auckland");
+    expect(isoOf(nextDeliveryAt(daily, at("2026-04-03T12:00:00Z")))).toBe("2026-04-03T18:00:00.000Z");
+    expect(isoOf(nextDeliveryAt(daily, at("2026-04-03T18:00:00Z")))).toBe("2026-04-04T19:00:00.000Z");
+  });
+
+  it("delivers a time that falls in the DST gap once, an hour early", () => {
+    const daily = schedule(["02:30"], "America/New_York");
+    const first = nextDeliveryAt(daily, at("2026-03-08T05:00:00Z"));
+    expect(isoOf(first)).toBe("2026-03-08T06:30:00.000Z");
+    expect(isoOf(nextDeliveryAt(daily, first!))).toBe("2026-03-09T06:30:00.000Z");
+  });
+
+  it("returns null when deliveries are off", () => {
+    expect(nextDeliveryAt(schedule(["07:00"], "UTC", false), at("2026-03-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("planDeliveries", () => {
+  const daily = schedule(["07:00"], "America/New_York");
+
+  it("runs a slot on time when the tick lands right after it", () => {
+    const plan = planDeliveries(daily, "2026-03-07T12:00:00.000Z", at("2026-03-08T11:00:30Z"));
+    expect(plan).toEqual({ superseded: [], latest: at("2026-03-08T11:00:00Z"), expired: false, trigger: "on-time" });
+  });
+
+  it("has nothing due until the next slot", () => {
+    const plan = planDeliveries(daily, "2026-03-08T11:00:00.000Z", at("2026-03-08T20:00:00Z"));
+    expect(plan.latest).toBeNull();
+    expect(plan.superseded).toEqual([]);
+  });
+
+  it("catches up a slot missed within the window", () => {
+    const plan = planDeliveries(daily, "2026-03-07T12:00:00.000Z", at("2026-03-08T13:00:00Z"));
+    expect(plan).toMatchObject({ latest: at("2026-03-08T11:00:00Z"), expired: false, trigger: "catch-up" });
+  });
+
+  it("gives up on a slot older than the catch-up window", () => {
+    const plan = planDeliveries(daily, "2026-03-07T12:00:00.000Z", at("2026-03-08T17:30:00Z"));
+    expect(plan).toMatchObject({ latest: at("2026-03-08T11:00:00Z"), expired: true });
+  });
+
+  it("supersedes older missed slots across a DST change and runs only the newest", () => {
+    const plan = planDeliveries(daily, "2026-03-05T12:00:00.000Z", at("2026-03-08T12:00:00Z"));
+    expect(plan.superseded.map(isoOf)).toEqual(["2026-03-06T12:00:00.000Z", "2026-03-07T12:00:00.000Z"]);
+    expect(plan).toMatchObject({ latest: at("2026-03-08T11:00:00Z"), expired: false, trigger: "catch-up" });
+  });
+
+  it("looks back at most a week after a long outage", () => {
+    const plan = planDeliveries(daily, "2026-01-01T12:00:00.000Z", at("2026-03-08T11:01:00Z"));
+    expect(plan.superseded.map(isoOf)).toEqual([
+      "2026-03-01T12:00:00.000Z",
+      "2026-03-02T12:00:00.000Z",
+      "2026-03-03T12:00:00.000Z",
+      "2026-03-04T12:00:00.000Z",
+      "2026-03-05T12:00:00.000Z",
+      "2026-03-06T12:00:00.000Z",
+      "2026-03-07T12:00:00.000Z",
+    ]);
+    expect(plan).toMatchObject({ latest: at("2026-03-08T11:00:00Z"), trigger: "on-time" });
+  });
+
+  it("does not deliver a 01:30 slot twice when clocks fall back", () => {
+    const night = schedule(["01:30"], "America/New_York");
+    const plan = planDeliveries(night, "2026-10-31T05:30:00.000Z", at("2026-11-01T07:00:00Z"));
+    expect(plan.superseded).toEqual([]);
+    expect(plan.latest).not.toBeNull();
+    expect(planDeliveries(night, isoOf(plan.latest), at("2026-11-01T07:00:00Z")).latest).toBeNull();
+  });
+
+  it("has nothing due when deliveries are off", () => {
+    expect(planDeliveries(schedule(["07:00"], "UTC", false), null, at("2026-03-08T07:00:30Z")).latest).toBeNull();
+  });
+});
@@ -0,0 +1,305 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { MAX_RECIPIENTS, parseRecipients, renderEmailDigest } from "../src/emailDigest";
+import { normalizeFeedback } from "../src/interests";
+import { normalizePreferences } from "../src/preferences";
+import type { DeliverySchedule, Edition, ScheduledRun, ScheduleState } from "../src/types";
+import type { ServerEnv } from "./api.js";
+import { runBriefing } from "./briefing.js";
+import { sendMail, smtpSettings } from "./smtp.js";
+
+const TICK_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A delivery missed while the server was down still runs if the slot is at most this old.
+const CATCH_UP_WINDOW_MS = 6 * 60 * 60 * 1000;
+// However long the server was down, only this many days of missed slots are recorded.
+const LOOKBACK_DAYS = 7;
+const MAX_RUNS = 50;
+const MAX_EDITIONS = 30;
+const MAX_TIMES = 6;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+type SchedulerFile = {
+  schedule: DeliverySchedule | null;
+  /** Latest slot that has been delivered or recorded as missed; only later slots are due. */
+  lastSlot: string | null;
+  runs: ScheduledRun[];
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
+
+/**
+ * Runs briefings at the reader's delivery times, ahead of them opening the app. State and
+ * finished editions live as JSON under SCHEDULE_DATA_DIR; the client imports the editions
+ * into its archive when it opens.
+ */
+export function createScheduler(env: ServerEnv, root: string) {
+  const dataDir = path.resolve(root, env.SCHEDULE_DATA_DIR || ".data");
+  const statePath = path.join(dataDir, "schedule.json");
+  const editionsPath = path.join(dataDir, "scheduled-editions.json");
+  let state: SchedulerFile = { schedule: null, lastSlot: null, runs: [] };
+  let loaded: Promise<void> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let ticking = false;
+  let active: AbortController | null = null;
+
+  const smtp = smtpSettings(env);
+
+  const persist = () => writeJson(dataDir, statePath, state);
+
+  const load = () => {
+    loaded ??= (async () => {
+      const saved = await readJson<SchedulerFile>(statePath);
+      if (saved) state = { schedule: saved.schedule ?? null, lastSlot: saved.lastSlot ?? null, runs: saved.runs ?? [] };
+      // A run still marked running was cut off by a restart. Its slot was never marked done, so catch-up retries it.
+      const interrupted = state.runs.filter((run) => run.status === "running");
+      interrupted.forEach((run) =>
+        Object.assign(run, { status: "failed", finishedAt: new Date().toISOString(), error: "Interrupted by a server restart" })
+      );
+      if (interrupted.length) await persist();
+    })();
+    return loaded;
+  };
+
+  const recordRun = (run: Omit<ScheduledRun, "id">) => {
+    const record: ScheduledRun = { id: randomUUID(), ...run };
+    state.runs = [record, ...state.runs].slice(0, MAX_RUNS);
+    return record;
+  };
+
+  const saveEdition = async (edition: Edition) => {
+    const editions = (await readJson<Edition[]>(editionsPath)) ?? [];
+    await writeJson(dataDir, editionsPath, [edition, ...editions].slice(0, MAX_EDITIONS));
+  };
+
+  const deliver = async (schedule: DeliverySchedule, slot: string, trigger: ScheduledRun["trigger"]) => {
+    const run = recordRun({ slot, trigger, status: "running", startedAt: new Date().toISOString() });
+    await persist();
+    const controller = new AbortController();
+    active = controller;
+    try {
+      const edition = await runBriefing(env, schedule.profile, slot, controller.signal);
+      await saveEdition(edition);
+      Object.assign(run, {
+        status: "succeeded",
+        backend: edition.backend,
+        editionId: edition.id,
+        storyCount: edition.items.length,
+      });
+      if (schedule.emailTo?.length) {
+        // The edition is already delivered to the app, so a mail failure is recorded without failing the run.
+        try {
+          if (!smtp) throw new Error("SMTP_HOST is not set");
+          await sendMail(smtp, { to: schedule.emailTo, ...renderEmailDigest(edition, env.APP_URL?.trim() || undefined) });
+          run.emailedTo = schedule.emailTo;
+        } catch (error) {
+          run.emailError = error instanceof Error ? error.message : "Unknown email error";
+        }
+      }
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? "Stopped with the server"
+        : error instanceof Error
+          ? error.message
+          : "Unknown briefing error";
+      Object.assign(run, { status: "failed", error: message });
+    } finally {
+      active = null;
+      run.finishedAt = new Date().toISOString();
+      // A run stopped with the server leaves its slot due, so the next start catches it up.
+      if (!controller.signal.aborted) state.lastSlot = slot;
+      await persist();
+    }
+  };
+
+  const tick = async () => {
+    if (ticking || active) return;
+    ticking = true;
+    try {
+      await load();
+      const { schedule } = state;
+      if (!schedule?.enabled || !schedule.times.length) return;
+      const plan = planDeliveries(schedule, state.lastSlot, Date.now());
+      if (plan.latest === null) return;
+      const latest = plan.latest;
+      plan.superseded.forEach((slot) =>
+        recordRun({ slot: new Date(slot).toISOString(), trigger: "catch-up", status: "missed", error: "Superseded by a later delivery" })
+      );
+      if (plan.superseded.length) state.lastSlot = new Date(plan.superseded[plan.superseded.length - 1]).toISOString();
+      if (plan.expired) {
+        recordRun({
+          slot: new Date(latest).toISOString(),
+          trigger: "catch-up",
+          status: "missed",
+          error: "The server was down and the catch-up window has passed",
+        });
+        state.lastSlot = new Date(latest).toISOString();
+        await persist();
+        return;
+      }
+      await deliver(schedule, new Date(latest).toISOString(), plan.trigger);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  const getState = async (): Promise<ScheduleState> => {
+    await load();
+    const { schedule } = state;
+    const next = schedule ? nextDeliveryAt(schedule, Date.now()) : null;
+    return { schedule, runs: state.runs, nextRunAt: next !== null ? new Date(next).toISOString() : null };
+  };
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), TICK_MS);
+      timer.unref();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+      active?.abort();
+    },
+    getState,
+    /** Replaces the schedule. Slots that already passed today are not delivered retroactively. */
+    async updateSchedule(input: unknown): Promise<{ state: ScheduleState | null; error: string | null }> {
+      await load();
+      const validation = validateSchedule(input);
+      if (!validation.schedule) return { state: null, error: validation.error };
+      const now = Date.now();
+      const passed = listSlots(validation.schedule, now).filter((slot) => slot <= now);
+      state.schedule = validation.schedule;
+      state.lastSlot = passed.length ? new Date(passed[passed.length - 1]).toISOString() : null;
+      await persist();
+      return { state: await getState(), error: null };
+    },
+    /** Scheduled editions created after the given time, oldest first. */
+    async listEditions(after?: string | null) {
+      const editions = (await readJson<Edition[]>(editionsPath)) ?? [];
+      return editions.filter((edition) => !after || edition.createdAt > after).reverse();
+    },
+  };
+}
+
+/** What a tick at `now` does with the slots that came due since lastSlot. Times are epoch milliseconds. */
+export type DeliveryPlan = {
+  /** Older due slots, recorded as missed: only the newest missed delivery is worth running. */
+  superseded: number[];
+  /** The newest due slot, or null when nothing is due. */
+  latest: number | null;
+  /** latest is older than the catch-up window, so it is recorded as missed instead of run. */
+  expired: boolean;
+  trigger: ScheduledRun["trigger"];
+};
+
+export function planDeliveries(schedule: DeliverySchedule, lastSlot: string | null, now: number): DeliveryPlan {
+  const since = Math.max(lastSlot ? Date.parse(lastSlot) : 0, now - LOOKBACK_DAYS * DAY_MS);
+  const due = schedule.enabled ? listSlots(schedule, now).filter((slot) => slot > since && slot <= now) : [];
+  const latest = due.length ? due[due.length - 1] : null;
+  return {
+    superseded: due.slice(0, -1),
+    latest,
+    expired: latest !== null && now - latest > CATCH_UP_WINDOW_MS,
+    trigger: latest !== null && now - latest > 2 * TICK_MS ? "catch-up" : "on-time",
+  };
+}
+
+/** The first delivery after `now`, or null when deliveries are off. */
+export function nextDeliveryAt(schedule: DeliverySchedule, now: number) {
+  if (!schedule.enabled) return null;
+  return listSlots(schedule, now).find((slot) => slot > now) ?? null;
+}
+
+function validateSchedule(input: unknown): { schedule: DeliverySchedule | null; error: string | null } {
+  const value = (input && typeof input === "object" ? input : {}) as Record<string, any>;
+  const times: string[] = Array.isArray(value.times) ? Array.from(new Set(value.times.map(String))) : [];
+  if (times.some((time) => !TIME_PATTERN.test(time))) return { schedule: null, error: "times must be HH:MM (24-hour)" };
+  if (times.length > MAX_TIMES) return { schedule: null, error: `at most ${MAX_TIMES} delivery times` };
+  const timeZone = typeof value.timeZone === "string" ? value.timeZone : "";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    return { schedule: null, error: "timeZone must be an IANA time zone" };
+  }
+  const emailTo = parseRecipients(value.emailTo ?? []);
+  if (!emailTo) return { schedule: null, error: `emailTo must be at most ${MAX_RECIPIENTS} email addresses` };
+  const profile = value.profile;
+  if (typeof profile?.topics !== "string" || !profile.topics.trim()) {
+    return { schedule: null, error: "profile.topics is required" };
+  }
+  return {
+    schedule: {
+      enabled: value.enabled === true,
+      times: times.sort(),
+      timeZone,
+      profile: {
+        id: typeof profile.id === "string" ? profile.id : "",
+        name: typeof profile.name === "string" ? profile.name : "",
+        location: typeof profile.location === "string" ? profile.location : "",
+        topics: profile.topics,
+        preferences: normalizePreferences(profile.preferences),
+        feedback: normalizeFeedback(profile.feedback),
+      },
+      emailTo,
+      updatedAt: new Date().toISOString(),
+    },
+    error: null,
+  };
+}
+
+/** Every delivery instant from LOOKBACK_DAYS before `around` to the day after it, ascending. */
+function listSlots(schedule: DeliverySchedule, around: number) {
+  const today = zonedParts(around, schedule.timeZone);
+  const slots: number[] = [];
+  for (let offset = -LOOKBACK_DAYS; offset <= 1; offset += 1) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    schedule.times.forEach((time) => {
+      const [hours, minutes] = time.split(":").map(Number);
+      slots.push(
+        zonedTimeToInstant(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hours, minutes, schedule.timeZone)
+      );
+    });
+  }
+  return slots.sort((a, b) => a - b);
+}
+
+function zonedParts(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wall = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return { year: get("year"), month: get("month"), day: get("day"), offsetMs: wall - Math.floor(instant / 1000) * 1000 };
+}
+
+function zonedTimeToInstant(year: number, month: number, day: number, hours: number, minutes: number, timeZone: string) {
+  const wall = Date.UTC(year, month - 1, day, hours, minutes);
+  const guess = wall - zonedParts(wall, timeZone).offsetMs;
+  // Second pass picks up the offset on the actual date, which differs around DST changes.
+  return wall - zonedParts(guess, timeZone).offsetMs;
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function writeJson(dataDir: string, filePath: string, value: unknown) {
+  await mkdir(dataDir, { recursive: true });
+  const temp = `${filePath}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(value, null, 2));
+  await rename(temp, filePath);
+}
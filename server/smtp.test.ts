@@ -0,0 +1,153 @@
+import net from "node:net";
+import { networkInterfaces } from "node:os";
+import { afterEach, describe, expect, it } from "vitest";
+import { renderEmailDigest } from "../src/emailDigest";
+import type { Edition } from "../src/types";
+import { sendMail } from "./smtp.js";
+import type { SmtpSettings } from "./smtp.js";
+
+type Capture = { port: number; commands: string[]; data: string[]; close: () => Promise<void> };
+
+/** A plain-text SMTP server on a free port that accepts everything and records what it was sent. */
+async function captureServer(host: string): Promise<Capture> {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let message: string | null = null;
+    socket.write("220 capture ready\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      for (let end = buffer.indexOf("\r\n"); end >= 0; end = buffer.indexOf("\r\n")) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (message !== null) {
+          if (line === ".") {
+            data.push(message);
+            message = null;
+            socket.write("250 queued\r\n");
+          } else {
+            message += `${line}\r\n`;
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-capture\r\n250 AUTH PLAIN\r\n");
+        else if (verb === "AUTH") socket.write("235 accepted\r\n");
+        else if (verb === "DATA") {
+          message = "";
+          socket.write("354 go ahead\r\n");
+        } else if (verb === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, host, resolve));
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    commands,
+    data,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function settings(port: number, overrides: Partial<SmtpSettings> = {}): SmtpSettings {
+  return {
+    host: "127.0.0.1",
+    port,
+    secure: false,
+    user: "",
+    pass: "",
+    from: "briefing@example.com",
+    allowInsecureAuth: false,
+    ...overrides,
+  };
+}
+
+const edition: Edition = {
+  id: "edition-1",
+  createdAt: "2026-03-02T07:00:00.000Z",
+  profile: { location: "Penang", topics: "Ports" },
+  summary: "A quiet morning.",
+  items: [
+    {
+      title: "Port expansion approved",
+      summary: "Work starts in May.",
+      category: "Local",
+      tags: [],
+      url: "https://example.com/port",
+    },
+  ],
+  trace: [],
+};
+
+function decodeParts(raw: string) {
+  return raw
+    .split(/\r\n\r\n/)
+    .slice(1)
+    .map((part) => Buffer.from(part.split("\r\n--")[0].replace(/\r\n/g, ""), "base64").toString("utf8"));
+}
+
+/** An address of this machine that is not loopback, for a server that must not count as local. */
+function externalAddress() {
+  return Object.values(networkInterfaces())
+    .flat()
+    .find((entry) => entry && entry.family === "IPv4" && !entry.internal)?.address;
+}
+
+let capture: Capture | null = null;
+
+afterEach(async () => {
+  await capture?.close();
+  capture = null;
+});
+
+describe("sendMail", () => {
+  it("delivers a rendered digest to every recipient", async () => {
+    capture = await captureServer("127.0.0.1");
+    const digest = renderEmailDigest(edition, "https://briefing.example.com/");
+    await sendMail(settings(capture.port), { to: ["a@example.com", "b@example.com"], ...digest });
+
+    expect(capture.commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      "MAIL FROM:<briefing@example.com>",
+      "RCPT TO:<a@example.com>",
+      "RCPT TO:<b@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    const [message] = capture.data;
+    expect(message).toContain(`Subject: ${digest.subject}`);
+    expect(message).toContain("To: a@example.com, b@example.com");
+    const [text, html] = decodeParts(message.split(/boundary="[^"]+"\r\n/)[1]);
+    expect(text).toContain("Port expansion approved");
+    expect(text).toContain("Open the briefing: https://briefing.example.com/");
+    expect(html).toContain('href="https://example.com/port"');
+  });
+
+  it("logs in over a plain connection to a loopback server", async () => {
+    capture = await captureServer("127.0.0.1");
+    await sendMail(settings(capture.port, { user: "reader", pass: "secret" }), {
+      to: ["a@example.com"],
+      ...renderEmailDigest(edition),
+    });
+    expect(capture.commands[1]).toBe(`AUTH PLAIN ${Buffer.from("\0reader\0secret").toString("base64")}`);
+  });
+
+  const external = externalAddress();
+
+  it.skipIf(!external)("refuses to send the login unencrypted to another host", async () => {
+    capture = await captureServer(external as string);
+    const login = settings(capture.port, { host: external, user: "reader", pass: "secret" });
+    await expect(sendMail(login, { to: ["a@example.com"], ...renderEmailDigest(edition) })).rejects.toThrow(/STARTTLS/);
+    expect(capture.commands.some((command) => command.startsWith("AUTH"))).toBe(false);
+  });
+
+  it.skipIf(!external)("sends it anyway when insecure auth is allowed", async () => {
+    capture = await captureServer(external as string);
+    const login = settings(capture.port, { host: external, user: "reader", pass: "secret", allowInsecureAuth: true });
+    await sendMail(login, { to: ["a@example.com"], ...renderEmailDigest(edition) });
+    expect(capture.commands.some((command) => command.startsWith("AUTH PLAIN"))).toBe(true);
+  });
+});
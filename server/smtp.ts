@@ -0,0 +1,206 @@
+import { randomUUID } from "node:crypto";
+import net from "node:net";
+import { hostname } from "node:os";
+import tls from "node:tls";
+import type { ServerEnv } from "./api.js";
+
+const SMTP_TIMEOUT_MS = 15000;
+
+export type SmtpSettings = {
+  host: string;
+  port: number;
+  /** TLS from the first byte (port 465). Otherwise STARTTLS is used whenever the server offers it. */
+  secure: boolean;
+  user: string;
+  pass: string;
+  from: string;
+  /** Lets AUTH go over a plain connection to a host that is not loopback. */
+  allowInsecureAuth: boolean;
+};
+
+export type MailMessage = { to: string[]; subject: string; html: string; text: string };
+
+type Reply = { code: number; text: string };
+
+/** SMTP_* settings from the environment, or null when no SMTP_HOST is set. */
+export function smtpSettings(env: ServerEnv): SmtpSettings | null {
+  if (!env.SMTP_HOST) return null;
+  const secure = env.SMTP_SECURE === "true";
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER ?? "",
+    pass: env.SMTP_PASS ?? "",
+    from: env.SMTP_FROM || `briefing@${hostname()}`,
+    allowInsecureAuth: env.SMTP_ALLOW_INSECURE_AUTH === "true",
+  };
+}
+
+/**
+ * Sends one message over a fresh connection: EHLO, STARTTLS if offered, AUTH PLAIN if configured,
+ * then DATA. Credentials only go over TLS, unless the server is loopback or allowInsecureAuth is set.
+ */
+export async function sendMail(settings: SmtpSettings, message: MailMessage) {
+  const session = await openSession(settings);
+  try {
+    await session.expect(220);
+    const greeting = `EHLO ${hostname() || "localhost"}`;
+    let encrypted = settings.secure;
+    const features = await session.command(greeting, 250);
+    if (!encrypted && /^STARTTLS\b/im.test(features.text)) {
+      await session.command("STARTTLS", 220);
+      await session.upgrade();
+      await session.command(greeting, 250);
+      encrypted = true;
+    }
+    if (settings.user) {
+      if (!encrypted && !settings.allowInsecureAuth && !isLoopbackHost(settings.host)) {
+        throw new Error("The SMTP server does not offer STARTTLS; refusing to send the login unencrypted");
+      }
+      const credentials = Buffer.from(`\0${settings.user}\0${settings.pass}`).toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+    await session.command(`MAIL FROM:<${settings.from}>`, 250);
+    for (const recipient of message.to) await session.command(`RCPT TO:<${recipient}>`, 250, 251);
+    await session.command("DATA", 354);
+    await session.command(`${buildMessage(settings.from, message).replace(/^\./gm, "..")}\r\n.`, 250);
+    await session.command("QUIT", 221).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
+
+function isLoopbackHost(host: string) {
+  const name = host.toLowerCase().replace(/^\[|\]$/g, "");
+  return name === "localhost" || name === "::1" || /^127\.\d+\.\d+\.\d+$/.test(name);
+}
+
+async function openSession(settings: SmtpSettings) {
+  let socket: net.Socket;
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: Reply[] = [];
+  const waiting: { resolve: (reply: Reply) => void; reject: (error: Error) => void }[] = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end = buffer.indexOf("\r\n");
+    while (end >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line);
+      // "250-..." continues a multi-line reply; "250 ..." ends it.
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.map((entry) => entry.slice(4)).join("\n") };
+        lines = [];
+        const next = waiting.shift();
+        if (next) next.resolve(reply);
+        else replies.push(reply);
+      }
+      end = buffer.indexOf("\r\n");
+    }
+  };
+  const onError = (error: Error) => {
+    failure ??= error;
+    waiting.splice(0).forEach((entry) => entry.reject(error));
+  };
+  const onClose = () => onError(new Error("The SMTP server closed the connection"));
+  const attach = (next: net.Socket) => {
+    socket = next;
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("The SMTP server timed out")));
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+  };
+  const connected = (next: net.Socket, event: string) =>
+    new Promise<void>((resolve, reject) => {
+      next.once(event, resolve);
+      next.once("error", reject);
+    });
+
+  const initial = settings.secure
+    ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host })
+    : net.connect({ host: settings.host, port: settings.port });
+  attach(initial);
+  await connected(initial, settings.secure ? "secureConnect" : "connect");
+
+  const read = () =>
+    new Promise<Reply>((resolve, reject) => {
+      const reply = replies.shift();
+      if (reply) resolve(reply);
+      else if (failure) reject(failure);
+      else waiting.push({ resolve, reject });
+    });
+  const expect = async (...codes: number[]) => {
+    const reply = await read();
+    if (!codes.includes(reply.code)) throw new Error(`SMTP ${reply.code}: ${reply.text.split("\n")[0]}`);
+    return reply;
+  };
+
+  return {
+    expect,
+    async command(line: string, ...codes: number[]) {
+      socket.write(`${line}\r\n`);
+      return expect(...codes);
+    },
+    async upgrade() {
+      const plain = socket;
+      plain.removeListener("data", onData);
+      plain.removeListener("error", onError);
+      plain.removeListener("close", onClose);
+      plain.setTimeout(0);
+      const secure = tls.connect({ socket: plain, servername: settings.host });
+      attach(secure);
+      await connected(secure, "secureConnect");
+    },
+    close() {
+      socket.removeListener("close", onClose);
+      socket.destroy();
+    },
+  };
+}
+
+function buildMessage(from: string, message: MailMessage) {
+  const boundary = `briefing-${randomUUID()}`;
+  const domain = from.split("@")[1] || "localhost";
+  const part = (type: string, body: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from(body).toString("base64").replace(/.{76}/g, "$&\r\n"),
+    ].join("\r\n");
+  return [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+/** RFC 2047 encoded words for non-ASCII subjects, split on characters so no word breaks a UTF-8 sequence. */
+function encodeHeader(value: string) {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+  const words: string[] = [];
+  let current = "";
+  for (const character of clean) {
+    if (Buffer.byteLength(current + character) > 45) {
+      words.push(current);
+      current = "";
+    }
+    current += character;
+  }
+  words.push(current);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`).join("\r\n ");
+}
@@ -1,72 +1,122 @@
 import * as React from "react";
-
-type LogLine = {
-  id: string;
-  ts: string;
-  meta: string;
-  message: string;
-};
-
-type ReaderProfile = {
-  location: string;
-  topics: string;
+import {
+  createResearchBackends,
+  isBackendAvailable,
+  pickDefaultBackend,
+  probeBackends,
+  runResearch,
+} from "./research";
+import type { BackendAvailability, ResearchBackendId } from "./research";
+import { dedupeStories, storyKey } from "./dedupe";
+import {
+  claimUnassignedEditions,
+  createEdition,
+  deleteProfileEditions,
+  getAllEditions,
+  importLegacyBrief,
+  listEditions,
+  loadEdition,
+  loadLatestEdition,
+  loadRetention,
+  saveEdition,
+  saveRetention,
+} from "./editions";
+import type { EditionSummary, RetentionSettings } from "./editions";
+import { MAX_RECIPIENTS, parseRecipients } from "./emailDigest";
+import { downloadEdition, feedUrl } from "./export";
+import type { DownloadFormat } from "./export";
+import { buildInterestModel, createFeedback, interestSignals, rateStory, ratingFor, rankByInterest } from "./interests";
+import type { InterestSignal } from "./interests";
+import { isRead, isSaved, loadLibrary, markRead, markSeen, saveLibrary, toggleSaved } from "./library";
+import type { Library } from "./library";
+import { generateAiMedia } from "./media";
+import {
+  createOnboardingState,
+  isUncertainReply,
+  LOCATION_SUGGESTIONS,
+  onboardingReducer,
+  shouldListenAfterQuestion,
+  TOPIC_SUGGESTIONS,
+} from "./onboarding";
+import type { OnboardingParseResult } from "./onboarding";
+import {
+  applyPreferences,
+  CATEGORY_WEIGHT_LABELS,
+  MAX_CATEGORY_WEIGHT,
+  normalizePreferences,
+  RECENCY_DAYS_RANGE,
+  STORY_COUNT_RANGE,
+  WEIGHTED_CATEGORIES,
+} from "./preferences";
+import {
+  applyProfileEdit,
+  describeProfileEdit,
+  isEmptyEdit,
+  normalizeProfileEdit,
+  recordProfileChange,
+} from "./profileEdits";
+import { activeProfile, createProfile, defaultProfileName, loadProfiles, removeProfile, saveProfiles, upsertProfile } from "./profiles";
+import type { ProfileStore } from "./profiles";
+import {
+  fetchEmailStatus,
+  fetchSchedule,
+  importScheduledEditions,
+  loadDeliverySecret,
+  localTimeZone,
+  saveDeliverySecret,
+  saveSchedule,
+  sendTestDigest,
+} from "./schedule";
+import type { EmailStatus } from "./schedule";
+import { buildChapters, loadChapterAudio, speechText } from "./readAloud";
+import type { Chapter } from "./readAloud";
+import { explainRelevance } from "./relevance";
+import { buildSearchIndex, EMPTY_SEARCH_FILTERS, highlight, listSources, searchIndex, snippet } from "./search";
+import type { SearchDocument, SearchFilters, SearchResult } from "./search";
+import { groupSections, NEWS_SECTIONS, sectionAnchor } from "./sections";
+import {
+  createSpeechProviders,
+  DEFAULT_VAD,
+  loadVadSettings,
+  pickSpeechProviders,
+  probeSpeechProviders,
+  saveVadSettings,
+} from "./speech";
+import type { ListenSession, SpeechAvailability, SpeechProvider, SpeechSetup, VadSettings } from "./speech";
+import { runDemoTrace } from "./research/demo";
+import type {
+  Edition,
+  LogLine,
+  NamedProfile,
+  NewsCategory,
+  NewsItem,
+  ProfileEdit,
+  ProfilePreferences,
+  ReaderProfile,
+  ScheduleState,
+  StoryRating,
+} from "./types";
+import { isAbortError, throwIfAborted, wait } from "./utils";
+import { parseVoiceCommand, VOICE_COMMAND_EXAMPLES } from "./voiceCommands";
+
+// Domain and topic lists are edited as comma-separated text.
+type PreferencesForm = Omit<ProfilePreferences, "excludedTopics" | "blockedDomains" | "preferredDomains"> & {
+  excludedTopics: string;
+  blockedDomains: string;
+  preferredDomains: string;
 };
 
-type OnboardingParseMissing = "location" | "topics";
-
-type OnboardingParseResult = {
-  location?: string | null;
-  topics?: string[] | string | null;
-  followupQuestion?: string | null;
-  missing?: OnboardingParseMissing[] | null;
-};
-
-type NewsCategory = "Local" | "International" | "Interest" | "Social" | "Other";
-
-type NewsItem = {
-  title: string;
-  summary: string;
-  url?: string;
-  source?: string;
-  category: NewsCategory;
-  mediaUrl?: string;
-  mediaType?: "image" | "video";
-  tags?: string[];
-};
-
-
-const DEFAULT_MANUS_BASE = "https://api.manus.ai";
-const DEFAULT_MANUS_TASKS = {
-  create: "/v1/tasks",
-  get: (id: string) => `/v1/tasks/${id}`,
-};
-const DEFAULT_MANUS_AGENT = "manus-1.6";
-const DEFAULT_MANUS_SYSTEM_PROMPT =
-  "You are a social web researcher. Search and summarize signals from social platforms (Reddit, Twitter/X, Facebook groups, YouTube comments) and user conversations. Focus on lived experience, opinions, comparisons, and sentiment-not official marketing copy. Return the most relevant links/posts and a concise synthesis of what people are saying. Be brief, avoid fluff, and prioritize recency and credibility.";
-const DEFAULT_MANUS_POLL_INTERVAL = 2000;
-const DEFAULT_MANUS_MAX_POLL_MS = 10 * 60 * 1000; // 10 minutes
-const PROFILE_STORAGE_KEY = "manus.reader.profile";
-const CACHE_STORAGE_KEY = "manus.news.cache";
-const NEWS_PAGE_SIZE = 9;
-const LOCATION_SUGGESTIONS = ["Global", "Malaysia", "Singapore", "United States", "Europe", "Asia"];
-const TOPIC_SUGGESTIONS = ["Technology", "Business", "Politics", "Food", "Entertainment", "Sports"];
-
-function useManusConfig() {
-  const base = (import.meta.env.DEV ? "/manus" : DEFAULT_MANUS_BASE).replace(/\/$/, "");
-  return {
-    key: import.meta.env.VITE_MANUS_API_KEY || "",
-    base,
-    enabled: true,
-    agentProfile: DEFAULT_MANUS_AGENT,
-    systemPrompt: DEFAULT_MANUS_SYSTEM_PROMPT,
-    taskPaths: {
-      create: DEFAULT_MANUS_TASKS.create,
-      get: DEFAULT_MANUS_TASKS.get(":id"),
-    },
-    pollIntervalMs: DEFAULT_MANUS_POLL_INTERVAL,
-    maxPollMs: DEFAULT_MANUS_MAX_POLL_MS,
-  };
-}
+// Value of the switcher option that starts onboarding for another profile.
+const NEW_PROFILE_OPTION = "__new__";
+const SECTION_PAGE_SIZE = 6;
+const FRONT_PAGE_ANCHOR = "front-page";
+const MAX_DELIVERY_TIMES = 6;
+const RATING_CONTROLS: { rating: StoryRating; label: string; title: string }[] = [
+  { rating: "up", label: "👍", title: "Good pick" },
+  { rating: "down", label: "👎", title: "Not for me" },
+  { rating: "more", label: "More like this", title: "More like this" },
+  { rating: "less", label: "Less like this", title: "Less like this" },
+];
 
 function formatElapsed(ms: number) {
   const mins = Math.floor(ms / 60000)
@@ -78,62 +128,39 @@ function formatElapsed(ms: number) {
   return `${mins}:${secs}`;
 }
 
-function loadProfile(): ReaderProfile | null {
-  if (typeof window === "undefined") return null;
-  const raw = window.localStorage.getItem(PROFILE_STORAGE_KEY);
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(raw);
-    if (typeof parsed?.topics === "string") {
-      return {
-        location: parsed.location || "",
-        topics: parsed.topics || "",
-      };
-    }
-  } catch {
-    return null;
-  }
-  return null;
-}
-
-function saveProfile(profile: ReaderProfile) {
-  if (typeof window === "undefined") return;
-  window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
-}
-
-function clearProfile() {
-  if (typeof window === "undefined") return;
-  window.localStorage.removeItem(PROFILE_STORAGE_KEY);
-}
-
-function loadCachedBrief(): { summary: string; items: NewsItem[] } | null {
-  if (typeof window === "undefined") return null;
-  const raw = window.localStorage.getItem(CACHE_STORAGE_KEY);
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(raw);
-    if (typeof parsed?.summary === "string" && Array.isArray(parsed?.items)) {
-      return { summary: parsed.summary, items: parsed.items };
-    }
-  } catch {
-    return null;
-  }
-  return null;
-}
-
-function saveCachedBrief(payload: { summary: string; items: NewsItem[]; updatedAt: string }) {
-  if (typeof window === "undefined") return;
-  window.localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(payload));
+function toPreferencesForm(preferences?: ProfilePreferences): PreferencesForm {
+  const normalized = normalizePreferences(preferences);
+  return {
+    ...normalized,
+    excludedTopics: normalized.excludedTopics.join(", "),
+    blockedDomains: normalized.blockedDomains.join(", "),
+    preferredDomains: normalized.preferredDomains.join(", "),
+  };
 }
 
 export default function App() {
-  const manusConfig = useManusConfig();
-  const useManus = manusConfig.enabled && !!manusConfig.key;
-
-  const [profile, setProfile] = React.useState<ReaderProfile | null>(() => loadProfile());
-  const [draft, setDraft] = React.useState<ReaderProfile>(() =>
-    profile ? { ...profile } : { location: "", topics: "" }
+  const [backends] = React.useState(createResearchBackends);
+  const [availability, setAvailability] = React.useState<BackendAvailability | null>(null);
+  const [backendId, setBackendId] = React.useState<ResearchBackendId>(() => pickDefaultBackend(backends));
+  const backend = backends.find((candidate) => candidate.id === backendId) ?? backends[backends.length - 1];
+  const [speechProviders] = React.useState(createSpeechProviders);
+  const [speechAvailability, setSpeechAvailability] = React.useState<SpeechAvailability | null>(null);
+  // Text only until the probe answers, so the first prompt is not spoken twice by different voices.
+  const speech = React.useMemo(
+    () => pickSpeechProviders(speechAvailability ? speechProviders : [], speechAvailability ?? {}),
+    [speechAvailability, speechProviders]
+  );
+  const [vadSettings, setVadSettings] = React.useState<VadSettings>(() => loadVadSettings());
+
+  const [profileStore, setProfileStore] = React.useState<ProfileStore>(() => loadProfiles());
+  const profile = activeProfile(profileStore);
+  const profileId = profile?.id;
+  const [onboarding, dispatchOnboarding] = React.useReducer(onboardingReducer, profile ?? undefined, createOnboardingState);
+  const [draftName, setDraftName] = React.useState(() => profile?.name ?? "");
+  const [preferencesForm, setPreferencesForm] = React.useState<PreferencesForm>(() =>
+    toPreferencesForm(profile?.preferences)
   );
+  const [onboardingMode, setOnboardingMode] = React.useState<"create" | "edit">("create");
   const [showOnboarding, setShowOnboarding] = React.useState(() => !profile);
   const [brief, setBrief] = React.useState("");
   const [stories, setStories] = React.useState<NewsItem[]>([]);
@@ -141,83 +168,138 @@ export default function App() {
   const [elapsed, setElapsed] = React.useState(0);
   const [lastUpdated, setLastUpdated] = React.useState<string | null>(null);
   const [logs, setLogs] = React.useState<LogLine[]>([]);
-  const [page, setPage] = React.useState(1);
+  const [sectionPages, setSectionPages] = React.useState<Partial<Record<NewsCategory, number>>>({});
   const [activeTag, setActiveTag] = React.useState<string | null>(null);
+  const [editions, setEditions] = React.useState<EditionSummary[]>([]);
+  const [activeEditionId, setActiveEditionId] = React.useState<string | null>(null);
+  const [library, setLibrary] = React.useState<Library>(() => loadLibrary());
+  // Story keys the active profile had seen before this visit; null on a profile's first visit.
+  const [seenBeforeVisit, setSeenBeforeVisit] = React.useState<Set<string> | null>(null);
+  const [showSaved, setShowSaved] = React.useState(false);
+  // Set while printing, so every section renders in full instead of one page.
+  const [printing, setPrinting] = React.useState(false);
+  // storyKey of the story the read-aloud player is narrating.
+  const [narratingKey, setNarratingKey] = React.useState<string | null>(null);
+  const [searchDocuments, setSearchDocuments] = React.useState<SearchDocument[]>([]);
+  const [searchQuery, setSearchQuery] = React.useState("");
+  const [searchFilters, setSearchFilters] = React.useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [retention, setRetention] = React.useState<RetentionSettings>(() => loadRetention());
+  const [scheduleState, setScheduleState] = React.useState<ScheduleState | null>(null);
+  const [deliveryDraft, setDeliveryDraft] = React.useState({ enabled: false, times: ["07:00"], emailTo: "" });
+  const [emailStatus, setEmailStatus] = React.useState<EmailStatus | null>(null);
+  const [digestNote, setDigestNote] = React.useState<string | null>(null);
+  const [deliveryError, setDeliveryError] = React.useState<string | null>(null);
+  const [deliverySecret, setDeliverySecret] = React.useState(() => loadDeliverySecret());
   const useCachedBrief = import.meta.env.VITE_USE_CACHED_BRIEF === "true";
-  const [onboardingStep, setOnboardingStep] = React.useState<"intro" | "location" | "topics" | "confirm">("intro");
   const [listening, setListening] = React.useState(false);
   const [speechError, setSpeechError] = React.useState<string | null>(null);
   const [transcript, setTranscript] = React.useState("");
   const [speaking, setSpeaking] = React.useState(false);
   const [onboardingQuery, setOnboardingQuery] = React.useState("");
-  const [onboardingFollowup, setOnboardingFollowup] = React.useState<string | null>(null);
-  const [onboardingParseError, setOnboardingParseError] = React.useState<string | null>(null);
-  const [onboardingParsing, setOnboardingParsing] = React.useState(false);
+  // Push-to-talk on the front page: set while the microphone is open, then what was heard and the answer.
+  const [commandListening, setCommandListening] = React.useState(false);
+  const [commandReply, setCommandReply] = React.useState<{ heard: string; reply: string; link?: string } | null>(null);
+  // "Tell your editor": the request as typed or heard, and the edit proposed for it until it is applied.
+  const [editorRequest, setEditorRequest] = React.useState("");
+  const [editorProposal, setEditorProposal] = React.useState<{ request: string; edit: ProfileEdit } | null>(null);
+  const [editorNote, setEditorNote] = React.useState<string | null>(null);
+  const [editorBusy, setEditorBusy] = React.useState(false);
+  const [editorListening, setEditorListening] = React.useState(false);
 
   const startRef = React.useRef<number | null>(null);
-  const mediaRecorderRef = React.useRef<MediaRecorder | null>(null);
-  const audioChunksRef = React.useRef<Blob[]>([]);
-  const listenTimeoutRef = React.useRef<number | null>(null);
+  const briefAbortRef = React.useRef<AbortController | null>(null);
+  const backendChosenRef = React.useRef(false);
+  // Profile whose newest edition was last put on the front page.
+  const openedProfileRef = React.useRef<string | null>(null);
+  const traceRef = React.useRef<LogLine[]>([]);
+  const listenSessionRef = React.useRef<ListenSession | null>(null);
   const listeningRef = React.useRef(false);
-  const speakIdRef = React.useRef(0);
+  const speakAbortRef = React.useRef<AbortController | null>(null);
   const applyTranscriptRef = React.useRef<(text: string) => void>(() => undefined);
-  const lastListenPromptRef = React.useRef(0);
+  const orbRef = React.useRef<HTMLDivElement | null>(null);
+  const commandSessionRef = React.useRef<ListenSession | null>(null);
+  const editorSessionRef = React.useRef<ListenSession | null>(null);
+  // storyKey of the story a voice command last pointed at, so "open that link" follows "read me the third story".
+  const voiceFocusRef = React.useRef<string | null>(null);
 
   const appendLog = React.useCallback((message: string, meta = "") => {
-    setLogs((prev) => [
-      ...prev,
-      {
-        id: `${Date.now()}-${Math.random()}`,
-        ts: new Date().toLocaleTimeString(),
-        meta,
-        message,
-      },
-    ]);
+    const line = {
+      id: `${Date.now()}-${Math.random()}`,
+      ts: new Date().toLocaleTimeString(),
+      meta,
+      message,
+    };
+    // Mirrored in a ref so the trace can be archived with the edition synchronously.
+    traceRef.current = [...traceRef.current, line];
+    setLogs((prev) => [...prev, line]);
+  }, []);
+
+  const replaceLogs = React.useCallback((lines: LogLine[]) => {
+    traceRef.current = lines;
+    setLogs(lines);
   }, []);
 
-  const speak = React.useCallback(async (text: string) => {
-    if (typeof window === "undefined") return;
+  const refreshEditions = React.useCallback(async (id = profileId) => {
+    if (!id) return;
     try {
-      setSpeaking(true);
-      const speakId = (speakIdRef.current += 1);
-      const response = await fetch("/eleven-tts", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text }),
-      });
-      if (!response.ok) {
-        setSpeaking(false);
-        return;
-      }
-      const arrayBuffer = await response.arrayBuffer();
-      const audioBlob = new Blob([arrayBuffer], { type: "audio/mpeg" });
-      const audioUrl = URL.createObjectURL(audioBlob);
-      const audio = new Audio(audioUrl);
-      await new Promise<void>((resolve) => {
-        const cleanup = () => {
-          URL.revokeObjectURL(audioUrl);
-          setSpeaking(false);
-          resolve();
-        };
-        audio.onended = cleanup;
-        audio.onerror = cleanup;
-        audio.onpause = cleanup;
-        audio.play().catch(cleanup);
-      });
-      if (speakId !== speakIdRef.current) return;
+      setEditions(await listEditions(id));
     } catch {
-      setSpeaking(false);
-      return;
+      setEditions([]);
     }
+  }, [profileId]);
+
+  const updateProfiles = React.useCallback((next: ProfileStore) => {
+    setProfileStore(next);
+    saveProfiles(next);
   }, []);
 
-  const requestOnboardingParse = React.useCallback(async (text: string) => {
+  const showEdition = React.useCallback(
+    (edition: Edition) => {
+      setBrief(edition.summary);
+      setStories(edition.items);
+      replaceLogs(edition.trace);
+      setActiveEditionId(edition.id);
+      setLastUpdated(new Date(edition.createdAt).toLocaleString());
+    },
+    [replaceLogs]
+  );
+
+  const clearEdition = React.useCallback(() => {
+    setBrief("");
+    setStories([]);
+    replaceLogs([]);
+    setActiveEditionId(null);
+    setLastUpdated(null);
+  }, [replaceLogs]);
+
+  const speak = React.useCallback(
+    async (text: string) => {
+      // A new prompt cuts off the one still playing.
+      speakAbortRef.current?.abort();
+      const controller = new AbortController();
+      speakAbortRef.current = controller;
+      setSpeaking(true);
+      try {
+        await speech.output.speak(text, controller.signal);
+      } catch {
+        // Every prompt is also on screen, so one that cannot be spoken is skipped.
+      } finally {
+        if (speakAbortRef.current === controller) {
+          speakAbortRef.current = null;
+          setSpeaking(false);
+        }
+      }
+    },
+    [speech.output]
+  );
+
+  const requestOnboardingParse = React.useCallback(async (text: string, existing: ReaderProfile) => {
     const response = await fetch("/ai-onboarding", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         text,
-        existing: { location: draft.location, topics: draft.topics },
+        existing: { location: existing.location, topics: existing.topics },
       }),
     });
     const data = await response.json().catch(() => ({}));
@@ -226,252 +308,80 @@ export default function App() {
       throw new Error(message);
     }
     return data as OnboardingParseResult;
-  }, [draft.location, draft.topics]);
-
-  const normalizeTopics = React.useCallback((topics: OnboardingParseResult["topics"]) => {
-    if (!topics) return "";
-    if (Array.isArray(topics)) {
-      return topics.map((topic) => topic.trim()).filter(Boolean).join(", ");
-    }
-    if (typeof topics === "string") return topics.trim();
-    return "";
-  }, []);
-
-  const buildFollowupQuestion = React.useCallback((missing: OnboardingParseMissing[]) => {
-    if (missing.includes("location") && missing.includes("topics")) {
-      return "What region should I focus on, and which topics should I follow?";
-    }
-    if (missing.includes("location")) {
-      return "Which region should I focus on for local news?";
-    }
-    return "Which topics should I track for you?";
   }, []);
 
-  const isUncertainReply = React.useCallback((text: string) => {
-    const lowered = text.toLowerCase();
-    return (
-      lowered.includes("don't know") ||
-      lowered.includes("dont know") ||
-      lowered.includes("not sure") ||
-      lowered.includes("no idea") ||
-      lowered.includes("you decide") ||
-      lowered.includes("whatever") ||
-      lowered.includes("help me") ||
-      lowered.includes("suggest") ||
-      lowered.includes("recommend") ||
-      lowered.includes("give me ideas")
-    );
+  // Written to the orb directly; a state update twenty times a second would re-render the whole page.
+  const showInputLevel = React.useCallback((level: number) => {
+    orbRef.current?.style.setProperty("--input-level", level.toFixed(2));
   }, []);
 
-  const buildSuggestionPrompt = React.useCallback(
-    (step: "location" | "topics") => {
-      if (step === "location") {
-        const ideas = LOCATION_SUGGESTIONS.slice(0, 4).join(", ");
-        return `No worries. Pick a region like ${ideas}, or say "global".`;
-      }
-      const ideas = TOPIC_SUGGESTIONS.slice(0, 5).join(", ");
-      return `Totally fine. A few ideas: ${ideas}. Which ones sound good?`;
-    },
-    []
-  );
-
   const startListening = React.useCallback(async () => {
     if (listeningRef.current) return;
+    if (speech.input.id === "text") {
+      setSpeechError("Voice input is not available here. Type your answer instead.");
+      return;
+    }
     setSpeechError(null);
     setTranscript("");
+    listeningRef.current = true;
+    setListening(true);
+    const session = speech.input.listen({ vad: vadSettings, onLevel: showInputLevel });
+    listenSessionRef.current = session;
+    let text = "";
+    let failure: unknown = null;
     try {
-      listeningRef.current = true;
-      setListening(true);
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const recorder = new MediaRecorder(stream);
-      audioChunksRef.current = [];
-      recorder.ondataavailable = (event) => {
-        if (event.data.size > 0) audioChunksRef.current.push(event.data);
-      };
-      recorder.onstop = async () => {
-        listeningRef.current = false;
-        setListening(false);
-        if (listenTimeoutRef.current) {
-          window.clearTimeout(listenTimeoutRef.current);
-          listenTimeoutRef.current = null;
-        }
-        const blob = new Blob(audioChunksRef.current, { type: recorder.mimeType || "audio/webm" });
-        try {
-          const formData = new FormData();
-          formData.append("file", blob, "speech.webm");
-          formData.append("audio", blob, "speech.webm");
-          formData.append("model_id", "scribe_v1");
-          const res = await fetch("/eleven-asr", {
-            method: "POST",
-            body: formData,
-          });
-          const data = await res.json().catch(() => ({}));
-          if (!res.ok) {
-            const err = data?.error;
-            const message = typeof err === "string" ? err : err ? JSON.stringify(err) : "Speech recognition failed.";
-            setSpeechError(message);
-            return;
-          }
-          const text = data?.text || "";
-          if (!text.trim()) {
-            const message = "I couldn't quite hear that. Please try again in a full sentence.";
-            setSpeechError(message);
-            const now = Date.now();
-            if (now - lastListenPromptRef.current > 2500) {
-              lastListenPromptRef.current = now;
-              void speak(message);
-            }
-            if (onboardingStep === "location" || onboardingStep === "topics") {
-              await startListening();
-            }
-            return;
-          }
-          setTranscript(text);
-          applyTranscriptRef.current(text);
-        } catch {
-          const message = "Sorry, I couldn't understand that. Could you say it again?";
-          setSpeechError(message);
-          const now = Date.now();
-          if (now - lastListenPromptRef.current > 2500) {
-            lastListenPromptRef.current = now;
-            void speak(message);
-          }
-          if (onboardingStep === "location" || onboardingStep === "topics") {
-            await startListening();
-          }
-        } finally {
-          stream.getTracks().forEach((track) => track.stop());
-        }
-      };
-      mediaRecorderRef.current = recorder;
-      recorder.start();
-      listenTimeoutRef.current = window.setTimeout(() => {
-        if (mediaRecorderRef.current?.state === "recording") {
-          mediaRecorderRef.current.stop();
-        }
-      }, 9000);
-    } catch {
-      listeningRef.current = false;
-      setSpeechError("Microphone access denied.");
-      setListening(false);
-    }
-  }, [onboardingStep, speak]);
-
-  const stopListening = React.useCallback(() => {
-    if (!mediaRecorderRef.current) return;
-    if (listenTimeoutRef.current) {
-      window.clearTimeout(listenTimeoutRef.current);
-      listenTimeoutRef.current = null;
+      text = await session.result;
+    } catch (error) {
+      failure = error;
     }
-    mediaRecorderRef.current.stop();
+    if (listenSessionRef.current !== session) return;
+    listenSessionRef.current = null;
     listeningRef.current = false;
     setListening(false);
+    if (failure) {
+      if (!isAbortError(failure)) {
+        setSpeechError(failure instanceof Error ? failure.message : "Speech recognition failed.");
+      }
+      return;
+    }
+    if (!text.trim()) {
+      // Asked again as a new question, which reopens the mic once it has been spoken.
+      dispatchOnboarding({ type: "unheard" });
+      return;
+    }
+    setTranscript(text);
+    applyTranscriptRef.current(text);
+  }, [showInputLevel, speech.input, vadSettings]);
+
+  /** Closes the microphone; what was said so far is still transcribed. */
+  const stopListening = React.useCallback(() => {
+    listenSessionRef.current?.stop();
   }, []);
 
+  /** Sends a typed or spoken reply through the onboarding machine: uncertain, or reply then parsed or error. */
   const handleOnboardingResponse = React.useCallback(
     async (text: string) => {
       const cleaned = text.trim();
-      if (!cleaned) return;
+      if (!cleaned || onboarding.parsing) return;
+      if (onboarding.step !== "location" && onboarding.step !== "topics") return;
       if (listeningRef.current) stopListening();
-      setOnboardingParsing(true);
-      setOnboardingParseError(null);
+      if (isUncertainReply(cleaned)) {
+        dispatchOnboarding({ type: "uncertain" });
+        return;
+      }
+      dispatchOnboarding({ type: "reply" });
       try {
-        if (isUncertainReply(cleaned) && (onboardingStep === "location" || onboardingStep === "topics")) {
-          setOnboardingFollowup(buildSuggestionPrompt(onboardingStep));
-          setOnboardingStep(onboardingStep);
-          setOnboardingParsing(false);
-          return;
-        }
-        const result = await requestOnboardingParse(cleaned);
-        const nextLocation = typeof result.location === "string" ? result.location.trim() : "";
-        const nextTopics = normalizeTopics(result.topics);
-        setDraft((prev) => ({
-          location: nextLocation || prev.location,
-          topics: nextTopics || prev.topics,
-        }));
-        const mergedLocation = nextLocation || draft.location;
-        const mergedTopics = nextTopics || draft.topics;
+        const result = await requestOnboardingParse(cleaned, onboarding.draft);
+        dispatchOnboarding({ type: "parsed", result });
         setOnboardingQuery("");
-        if (onboardingStep === "location") {
-          if (!mergedLocation) {
-            const followup =
-              typeof result.followupQuestion === "string" && result.followupQuestion.trim()
-                ? result.followupQuestion.trim()
-                : buildSuggestionPrompt("location");
-            setOnboardingFollowup(followup);
-            setOnboardingStep("location");
-            return;
-          }
-          setOnboardingFollowup(null);
-          setOnboardingStep("topics");
-          return;
-        }
-        if (onboardingStep === "topics") {
-          if (!mergedTopics) {
-            const followup =
-              typeof result.followupQuestion === "string" && result.followupQuestion.trim()
-                ? result.followupQuestion.trim()
-                : buildSuggestionPrompt("topics");
-            setOnboardingFollowup(followup);
-            setOnboardingStep("topics");
-            return;
-          }
-          setOnboardingFollowup(null);
-          setOnboardingStep("confirm");
-          return;
-        }
-        const missing =
-          result.missing && Array.isArray(result.missing)
-            ? result.missing
-            : ([
-                ...(mergedLocation ? [] : (["location"] as OnboardingParseMissing[])),
-                ...(mergedTopics ? [] : (["topics"] as OnboardingParseMissing[])),
-              ] as OnboardingParseMissing[]);
-        if (missing.length === 0) {
-          setOnboardingFollowup(null);
-          setOnboardingStep("confirm");
-          return;
-        }
-        const followup =
-          typeof result.followupQuestion === "string" && result.followupQuestion.trim()
-            ? result.followupQuestion.trim()
-            : buildFollowupQuestion(missing);
-        setOnboardingFollowup(followup);
-        setOnboardingStep(missing.includes("location") ? "location" : "topics");
       } catch (error) {
-        const message = error instanceof Error ? error.message : "Onboarding parse failed.";
-        setOnboardingParseError(message);
-      } finally {
-        setOnboardingParsing(false);
+        dispatchOnboarding({
+          type: "error",
+          message: error instanceof Error ? error.message : "Onboarding parse failed.",
+        });
       }
     },
-    [
-      buildFollowupQuestion,
-      buildSuggestionPrompt,
-      draft.location,
-      draft.topics,
-      isUncertainReply,
-      normalizeTopics,
-      onboardingStep,
-      requestOnboardingParse,
-      stopListening,
-    ]
-  );
-
-  const getOnboardingPrompt = React.useCallback(
-    (step: "intro" | "location" | "topics" | "confirm") => {
-      if (step === "intro") return "I can tailor a daily briefing in two quick questions.";
-      if (step === "confirm") return "Ready to start your personalized briefing.";
-      const defaultPrompt =
-        step === "location"
-          ? "Tell me the region you care about. You can say a city, country, or just global."
-          : "What kinds of news should I follow for you? A few interests is perfect.";
-      if (onboardingFollowup && (step === "location" || step === "topics")) {
-        return onboardingFollowup;
-      }
-      return defaultPrompt;
-    },
-    [onboardingFollowup]
+    [onboarding.draft, onboarding.parsing, onboarding.step, requestOnboardingParse, stopListening]
   );
 
   const applyTranscript = React.useCallback(
@@ -492,65 +402,184 @@ export default function App() {
 
   React.useEffect(() => {
     if (!showOnboarding) return;
-    setOnboardingStep("intro");
     setTranscript("");
     setSpeechError(null);
-    setOnboardingFollowup(null);
-    setOnboardingParseError(null);
     setOnboardingQuery("");
   }, [showOnboarding]);
 
   React.useEffect(() => {
     setOnboardingQuery("");
-    setOnboardingParseError(null);
-  }, [onboardingStep]);
+  }, [onboarding.step]);
 
+  // Speaks each question once, when it is asked; typing into the draft does not repeat it.
+  const { question, step: questionStep } = onboarding;
+  const listenAfterQuestion = shouldListenAfterQuestion(onboarding);
   React.useEffect(() => {
     if (!showOnboarding) return;
     let cancelled = false;
     const run = async () => {
       if (listeningRef.current) stopListening();
-      const prompt = getOnboardingPrompt(onboardingStep);
-      if (onboardingStep === "intro") {
+      if (questionStep === "intro") {
         await speak(
           "Welcome to your personal daily news assistant. I will ask a few quick questions to help me understand more about you."
         );
       }
-      if (onboardingStep === "location") {
-        void speak(prompt);
+      if (questionStep === "location" || questionStep === "topics") {
+        await speak(question.text);
+        // The mic opens once the question has been asked, as the hint promises.
+        if (!cancelled && listenAfterQuestion && speech.input.id !== "text") void startListening();
       }
-      if (onboardingStep === "topics") {
-        void speak(prompt);
-      }
-      if (onboardingStep === "confirm") {
+      if (questionStep === "confirm") {
         await speak("Great. I will start the briefing now.");
       }
-      if (cancelled) return;
     };
     run();
     return () => {
       cancelled = true;
     };
-  }, [getOnboardingPrompt, onboardingStep, showOnboarding, speak, startListening, stopListening]);
+  }, [listenAfterQuestion, question, questionStep, showOnboarding, speak, speech.input, startListening, stopListening]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    probeSpeechProviders(speechProviders).then((next) => {
+      if (!cancelled) setSpeechAvailability(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [speechProviders]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    probeBackends(backends).then((next) => {
+      if (cancelled) return;
+      setAvailability(next);
+      if (!backendChosenRef.current) setBackendId(pickDefaultBackend(backends, next));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [backends]);
 
   React.useEffect(() => {
-    appendLog(
-      useManus ? `Manus enabled (base ${manusConfig.base}).` : "Manus disabled or key missing; demo mode.",
-      "mode"
+    if (!availability) return;
+    appendLog(backend.banner, "mode");
+  }, [appendLog, availability, backend]);
+
+  React.useEffect(() => {
+    if (!profile) return;
+    let cancelled = false;
+    importLegacyBrief(profile)
+      .catch(() => false)
+      .then(() => claimUnassignedEditions(profile.id).catch(() => 0))
+      .then(() => importScheduledEditions().catch(() => null))
+      .then(async () => {
+        await refreshEditions();
+        if (cancelled || openedProfileRef.current === profile.id) return;
+        openedProfileRef.current = profile.id;
+        // Open on the profile's newest edition, so a scheduled delivery is on the front page without a refresh.
+        const latest = await loadLatestEdition(profile.id).catch(() => null);
+        if (cancelled || briefAbortRef.current) return;
+        if (latest) showEdition(latest);
+        else clearEdition();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clearEdition, profile, refreshEditions, showEdition]);
+
+  React.useEffect(() => {
+    if (!profile) return;
+    const onVisible = () => {
+      if (document.visibilityState !== "visible") return;
+      importScheduledEditions()
+        .then(async (edition) => {
+          if (!edition) return;
+          await refreshEditions();
+          if (!briefAbortRef.current && edition.profileId === profile.id) showEdition(edition);
+        })
+        .catch(() => undefined);
+    };
+    document.addEventListener("visibilitychange", onVisible);
+    return () => document.removeEventListener("visibilitychange", onVisible);
+  }, [profile, refreshEditions, showEdition]);
+
+  React.useEffect(() => {
+    saveLibrary(library);
+  }, [library]);
+
+  // Turns the narrated story's section to the page holding it, then brings the story into view.
+  React.useEffect(() => {
+    if (!narratingKey) return;
+    const group = groupSections(storiesWithTag(stories.slice(1), activeTag)).find((candidate) =>
+      candidate.items.some((story) => storyKey(story) === narratingKey)
     );
-    if (useManus) {
-      appendLog("Using Manus system prompt tailored for social browsing.", "manus");
+    if (group) {
+      const index = group.items.findIndex((story) => storyKey(story) === narratingKey);
+      setSectionPages((prev) => ({ ...prev, [group.section.category]: Math.floor(index / SECTION_PAGE_SIZE) + 1 }));
     }
-  }, [appendLog, manusConfig.base, useManus]);
+    const timer = window.setTimeout(() => {
+      document
+        .querySelector(".news-card--narrating, .lead-story--narrating")
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, 0);
+    return () => window.clearTimeout(timer);
+  }, [narratingKey, stories, activeTag]);
+
+  React.useEffect(() => {
+    if (!printing) return;
+    window.print();
+    setPrinting(false);
+  }, [printing]);
 
   React.useEffect(() => {
-    const totalPages = Math.max(1, Math.ceil((stories.length - 1) / NEWS_PAGE_SIZE));
-    if (page > totalPages) setPage(totalPages);
-  }, [page, stories.length]);
+    if (!profileId) return;
+    const seen = loadLibrary().seen[profileId];
+    setSeenBeforeVisit(seen ? new Set(seen) : null);
+  }, [profileId]);
+
+  React.useEffect(() => {
+    if (!profileId || running || !stories.length) return;
+    setLibrary((prev) => markSeen(prev, profileId, stories));
+  }, [profileId, running, stories]);
+
+  React.useEffect(() => {
+    // Rebuilt whenever the archive changes, so new and pruned editions show up in search.
+    if (!profileId) return;
+    let cancelled = false;
+    getAllEditions(profileId)
+      .then((all) => {
+        if (!cancelled) setSearchDocuments(buildSearchIndex(all));
+      })
+      .catch(() => {
+        if (!cancelled) setSearchDocuments([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, editions]);
+
+  React.useEffect(() => {
+    setPreferencesForm(toPreferencesForm(profile?.preferences));
+  }, [profile?.preferences]);
+
+  React.useEffect(() => {
+    fetchSchedule().then((next) => {
+      if (!next) return;
+      setScheduleState(next);
+      if (next.schedule) {
+        setDeliveryDraft({
+          enabled: next.schedule.enabled,
+          times: next.schedule.times,
+          emailTo: (next.schedule.emailTo ?? []).join(", "),
+        });
+      }
+    });
+  }, [deliverySecret]);
 
   React.useEffect(() => {
     setActiveTag(null);
-    setPage(1);
+    setSectionPages({});
   }, [stories.length]);
 
   React.useEffect(() => {
@@ -566,101 +595,527 @@ export default function App() {
 
   async function completeOnboarding() {
     if (listening) stopListening();
-    const nextProfile = {
-      location: draft.location.trim(),
-      topics: draft.topics.trim(),
+    const details = {
+      location: onboarding.draft.location.trim(),
+      topics: onboarding.draft.topics.trim(),
     };
-    if (!nextProfile.topics) return;
-    setProfile(nextProfile);
-    saveProfile(nextProfile);
+    if (!details.topics) return;
+    const nextProfile: NamedProfile =
+      onboardingMode === "edit" && profile
+        ? { ...profile, ...details, name: draftName.trim() || profile.name }
+        : createProfile(details, draftName);
+    updateProfiles(upsertProfile(profileStore, nextProfile));
+    // The brief about to run takes the front page instead of the archive.
+    openedProfileRef.current = nextProfile.id;
     setShowOnboarding(false);
+    syncSchedule(nextProfile);
     await runBrief(nextProfile);
   }
 
-  function resetOnboarding() {
-    clearProfile();
-    setProfile(null);
-    setDraft({ location: "", topics: "" });
-    setOnboardingStep("intro");
+  /** Scheduled deliveries follow the profile's current interests and preferences. */
+  function syncSchedule(nextProfile: NamedProfile) {
+    if (scheduleState?.schedule?.profile.id !== nextProfile.id) return;
+    saveSchedule({ ...scheduleState.schedule, profile: nextProfile })
+      .then(setScheduleState)
+      .catch(() => undefined);
+  }
+
+  function savePreferences() {
+    if (!profile) return;
+    const nextProfile = { ...profile, preferences: normalizePreferences(preferencesForm) };
+    updateProfiles(upsertProfile(profileStore, nextProfile));
+    syncSchedule(nextProfile);
+  }
+
+  /** Opens onboarding for a new profile, or to change the active one; existing profiles are kept either way. */
+  function startOnboarding(mode: "create" | "edit") {
+    if (running) return;
+    const editing = mode === "edit" && profile;
+    setOnboardingMode(mode);
+    dispatchOnboarding({ type: "open", draft: editing ? profile : { location: "", topics: "" } });
+    setDraftName(editing ? profile.name : "");
     setShowOnboarding(true);
   }
 
-  async function runBrief(nextProfile: ReaderProfile) {
+  function cancelOnboarding() {
+    if (listening) stopListening();
+    setShowOnboarding(false);
+  }
+
+  function switchProfile(id: string) {
+    if (running) return;
+    if (id === NEW_PROFILE_OPTION) {
+      startOnboarding("create");
+      return;
+    }
+    updateProfiles({ ...profileStore, activeId: id });
+  }
+
+  async function deleteProfile() {
+    if (!profile || running || profileStore.profiles.length < 2) return;
+    const confirmed = window.confirm(
+      `Delete the "${profile.name}" profile and its ${editions.length} archived edition(s)? Other profiles are not affected.`
+    );
+    if (!confirmed) return;
+    await deleteProfileEditions(profile.id).catch(() => 0);
+    updateProfiles(removeProfile(profileStore, profile.id));
+  }
+
+  async function runBrief(nextProfile: NamedProfile) {
     if (running) return;
     setBrief("");
     setStories([]);
-    setLogs([]);
-    setPage(1);
+    replaceLogs([]);
+    setActiveEditionId(null);
+    setSectionPages({});
     setRunning(true);
     startRef.current = Date.now();
+    const controller = new AbortController();
+    briefAbortRef.current = controller;
+    const { signal } = controller;
     appendLog(`Building brief for ${nextProfile.topics}.`, "brief");
     try {
       if (useCachedBrief) {
-        const cached = loadCachedBrief();
+        const cached = await loadLatestEdition(nextProfile.id).catch(() => null);
         if (cached) {
-          runDemoTrace(appendLog);
-          await wait(1400);
+          runDemoTrace(appendLog, signal);
+          await wait(1400, signal);
           setBrief(cached.summary);
           setStories(cached.items);
-          appendLog("Loaded cached briefing from local storage.", "brief");
+          setActiveEditionId(cached.id);
+          appendLog(`Loaded the latest edition (${new Date(cached.createdAt).toLocaleString()}) from the archive.`, "brief");
           return;
         }
         appendLog("No cached briefing found; running live fetch.", "brief");
       }
-      if (!useManus) {
-        runDemoTrace(appendLog);
-        await wait(2200);
-        const demo = buildDemoBrief(nextProfile);
-        setBrief(demo.summary);
-        const withImages = await generateAiMedia(demo.items, nextProfile, appendLog);
-        setStories(withImages);
-        saveCachedBrief({ summary: demo.summary, items: withImages, updatedAt: new Date().toISOString() });
-        appendLog("Generated demo brief locally.", "demo");
-        return;
-      }
-
-      const taskResult = await runManusTask(
-        buildNewsPrompt(nextProfile, manusConfig),
-        manusConfig,
-        appendLog,
-        (partial) => {
-          const parsed = parseNewsText(extractManusText(partial));
-          if (parsed.summary) setBrief(parsed.summary);
-          if (parsed.items.length) setStories(parsed.items);
-        }
-      );
-
-      const fileText = await fetchManusOutputFile(taskResult, appendLog);
-      const parsed = parseNewsText(fileText || extractManusText(taskResult));
+      appendLog(`Research backend: ${backend.label}.`, "brief");
+      const parsed = await runResearch(backend, { profile: nextProfile }, { appendLog, signal }, (partial) => {
+        if (partial.summary) setBrief(partial.summary);
+        if (partial.items.length) setStories(partial.items);
+      });
       setBrief(parsed.summary);
-      const withImages = await generateAiMedia(parsed.items, nextProfile, appendLog);
+      const deduped = dedupeStories(parsed.items);
+      if (deduped.duplicates) {
+        appendLog(
+          `Merged ${deduped.duplicates} duplicate stor${deduped.duplicates === 1 ? "y" : "ies"}; ${deduped.items.length} remain.`,
+          "dedupe"
+        );
+      }
+      const preferred = applyPreferences(deduped.items, normalizePreferences(nextProfile.preferences), appendLog);
+      const ranked = rankByInterest(preferred, nextProfile, appendLog);
+      setStories(ranked);
+      const withImages = await generateAiMedia(ranked, nextProfile, appendLog, signal);
+      throwIfAborted(signal);
       setStories(withImages);
-      saveCachedBrief({ summary: parsed.summary, items: withImages, updatedAt: new Date().toISOString() });
-      appendLog("Manus brief ready.", "manus");
+      appendLog(`${backend.label} brief ready.`, backend.id);
+      const edition = createEdition(
+        { summary: parsed.summary, items: withImages },
+        nextProfile,
+        traceRef.current,
+        backend.id
+      );
+      try {
+        const pruned = await saveEdition(edition, retention);
+        setActiveEditionId(edition.id);
+        appendLog(
+          pruned ? `Edition archived; pruned ${pruned} older edition(s).` : "Edition archived.",
+          "archive"
+        );
+        await refreshEditions(nextProfile.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown archive error";
+        appendLog(`Could not archive edition (${message})`, "archive");
+      }
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Unknown Manus error";
+      if (signal.aborted || isAbortError(err)) {
+        appendLog("Briefing cancelled. Nothing was saved; partial stories are kept on screen.", "cancelled");
+        return;
+      }
+      const message = err instanceof Error ? err.message : "Unknown research error";
       appendLog(`Brief failed: ${message}`, "error");
     } finally {
+      if (briefAbortRef.current === controller) briefAbortRef.current = null;
       setRunning(false);
-      setLastUpdated(new Date().toLocaleString());
+      if (!signal.aborted) setLastUpdated(new Date().toLocaleString());
+    }
+  }
+
+  async function openEdition(id: string) {
+    if (running) return;
+    const edition = await loadEdition(id).catch(() => null);
+    if (!edition) {
+      appendLog("That edition is no longer in the archive.", "archive");
+      await refreshEditions();
+      return;
+    }
+    showEdition(edition);
+  }
+
+  function storyCardProps(story: NewsItem) {
+    return {
+      story,
+      saved: isSaved(library, story),
+      read: isRead(library, story),
+      fresh: Boolean(seenBeforeVisit && !seenBeforeVisit.has(storyKey(story))),
+      onToggleSave: () => setLibrary((prev) => toggleSaved(prev, story, profileId)),
+      onOpen: () => setLibrary((prev) => markRead(prev, story)),
+      rating: ratingFor(profile?.feedback, story),
+      onRate: (rating: StoryRating) => rateActiveProfile(story, rating),
+      narrating: narratingKey === storyKey(story),
+    };
+  }
+
+  /** Ratings belong to the active profile and reach its next brief, scheduled ones included. */
+  function rateActiveProfile(story: NewsItem, rating: StoryRating) {
+    if (!profile) return;
+    const nextProfile = { ...profile, feedback: rateStory(profile.feedback, createFeedback(story, profile, rating)) };
+    updateProfiles(upsertProfile(profileStore, nextProfile));
+    syncSchedule(nextProfile);
+  }
+
+  /** Asks /ai-profile-edit what the request changes; nothing is saved until the reader confirms. */
+  async function askEditor(request: string, spoken = false) {
+    const text = request.trim();
+    if (!profile || !text || editorBusy) return;
+    setEditorBusy(true);
+    setEditorNote(null);
+    setEditorProposal(null);
+    try {
+      const response = await fetch("/ai-profile-edit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text,
+          profile: { location: profile.location, topics: profile.topics, preferences: profile.preferences },
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(typeof data?.error === "string" ? data.error : "Your editor could not read that.");
+      // Checked again here, in case the profile changed while the request was out.
+      const edit = normalizeProfileEdit(data?.edit, profile);
+      const reply = isEmptyEdit(edit)
+        ? (typeof data?.followupQuestion === "string" && data.followupQuestion) || "That would not change anything in your profile."
+        : !applyProfileEdit(profile, edit).topics
+          ? "A profile needs at least one topic. Name one to follow in the same request."
+          : null;
+      if (reply) {
+        setEditorNote(reply);
+        if (spoken) void speak(reply);
+        return;
+      }
+      setEditorProposal({ request: text, edit });
+      if (spoken) void speak(`${describeProfileEdit(edit).join(". ")}. Apply these changes?`);
+    } catch (error) {
+      setEditorNote(error instanceof Error ? error.message : "Your editor could not read that.");
+    } finally {
+      setEditorBusy(false);
+    }
+  }
+
+  function applyEditorProposal() {
+    if (!profile || !editorProposal) return;
+    const nextProfile = recordProfileChange(profile, editorProposal.request, editorProposal.edit);
+    updateProfiles(upsertProfile(profileStore, nextProfile));
+    syncSchedule(nextProfile);
+    setEditorProposal(null);
+    setEditorRequest("");
+    setEditorNote("Saved. The next edition follows your changes.");
+  }
+
+  async function listenToEditor() {
+    if (editorSessionRef.current) {
+      editorSessionRef.current.stop();
+      return;
+    }
+    speakAbortRef.current?.abort();
+    const session = speech.input.listen({ vad: vadSettings });
+    editorSessionRef.current = session;
+    setEditorListening(true);
+    let heard = "";
+    try {
+      heard = (await session.result).trim();
+    } catch (error) {
+      if (!isAbortError(error)) setEditorNote(error instanceof Error ? error.message : "Speech recognition failed.");
+      return;
+    } finally {
+      editorSessionRef.current = null;
+      setEditorListening(false);
+    }
+    if (!heard) {
+      setEditorNote("I didn't catch that. Try again, or type it.");
+      return;
+    }
+    setEditorRequest(heard);
+    await askEditor(heard, true);
+  }
+
+  function resetInterests() {
+    if (!profile?.feedback?.length) return;
+    if (!window.confirm(`Forget all ${profile.feedback.length} story ratings for "${profile.name}"?`)) return;
+    const nextProfile = { ...profile, feedback: [] };
+    updateProfiles(upsertProfile(profileStore, nextProfile));
+    syncSchedule(nextProfile);
+  }
+
+  /** The edition on screen: the archived copy when there is one, otherwise built from what is shown. */
+  async function currentEdition() {
+    if (activeEditionId) {
+      const archived = await loadEdition(activeEditionId).catch(() => null);
+      if (archived) return archived;
+    }
+    if (!profile || !stories.length) return null;
+    return createEdition({ summary: brief, items: stories }, profile, traceRef.current, backend.id);
+  }
+
+  async function exportEdition(format: DownloadFormat) {
+    const edition = await currentEdition();
+    if (!edition) return;
+    downloadEdition(edition, format);
+    appendLog(`Exported the edition as ${format === "markdown" ? "Markdown" : "EPUB"}.`, "export");
+  }
+
+  async function openSearchResult(result: SearchResult) {
+    await openEdition(result.document.editionId);
+    document.getElementById(FRONT_PAGE_ANCHOR)?.scrollIntoView({ behavior: "smooth" });
+  }
+
+  function updateRetention(next: RetentionSettings) {
+    setRetention(next);
+    saveRetention(next);
+  }
+
+  function updateVadSettings(next: Partial<VadSettings>) {
+    const settings = { ...vadSettings, ...next };
+    setVadSettings(settings);
+    saveVadSettings(settings);
+  }
+
+  async function saveDelivery() {
+    if (!profile) return;
+    setDeliveryError(null);
+    const emailTo = parseRecipients(deliveryDraft.emailTo);
+    if (!emailTo) {
+      setDeliveryError(`Enter up to ${MAX_RECIPIENTS} email addresses, separated by commas.`);
+      return;
+    }
+    try {
+      setScheduleState(
+        await saveSchedule({
+          enabled: deliveryDraft.enabled,
+          times: deliveryDraft.times.filter(Boolean),
+          timeZone: localTimeZone(),
+          profile,
+          emailTo,
+        })
+      );
+    } catch (error) {
+      setDeliveryError(error instanceof Error ? error.message : "Could not save the schedule.");
+    }
+  }
+
+  async function emailTestDigest() {
+    setDeliveryError(null);
+    setDigestNote(null);
+    const to = parseRecipients(deliveryDraft.emailTo);
+    if (!to?.length) {
+      setDeliveryError("Enter an email address to send the test digest to.");
+      return;
+    }
+    const edition = await currentEdition();
+    if (!edition) return;
+    try {
+      await sendTestDigest(to, edition);
+      setDigestNote(`Test digest sent to ${to.join(", ")}.`);
+      appendLog(`Emailed a test digest to ${to.length} address(es).`, "email");
+    } catch (error) {
+      setDeliveryError(error instanceof Error ? error.message : "Could not send the test digest.");
     }
   }
 
+  function cancelBrief() {
+    const controller = briefAbortRef.current;
+    if (!controller || controller.signal.aborted) return;
+    appendLog("Cancel requested by reader.", "cancelled");
+    controller.abort();
+  }
+
+  const leadStory = stories[0];
+  const canListen = speech.input.id !== "text";
   const extraStories = stories.slice(1);
-  const visibleStories = activeTag
-    ? extraStories.filter((story) => story.tags?.some((tag) => tag.toLowerCase() === activeTag.toLowerCase()))
-    : extraStories;
-  const totalPages = Math.max(1, Math.ceil(visibleStories.length / NEWS_PAGE_SIZE));
-  const safePage = Math.min(page, totalPages);
-  const pageStart = (safePage - 1) * NEWS_PAGE_SIZE;
-  const pagedStories = visibleStories.slice(pageStart, pageStart + NEWS_PAGE_SIZE);
+  const visibleStories = storiesWithTag(extraStories, activeTag);
+  const chapters = React.useMemo(() => buildChapters(brief, stories), [brief, stories]);
+  const interests = interestSignals(buildInterestModel(profile?.feedback));
+  const searchResults = searchIndex(searchDocuments, searchQuery, searchFilters);
+  const searchActive = Boolean(
+    searchQuery.trim() || searchFilters.from || searchFilters.to || searchFilters.category || searchFilters.source
+  );
+  const sections = groupSections(visibleStories).map((group) => {
+    if (printing) return { ...group, page: 1, totalPages: 1, pageItems: group.items };
+    const totalPages = Math.ceil(group.items.length / SECTION_PAGE_SIZE);
+    const page = Math.min(sectionPages[group.section.category] ?? 1, totalPages);
+    const start = (page - 1) * SECTION_PAGE_SIZE;
+    return { ...group, page, totalPages, pageItems: group.items.slice(start, start + SECTION_PAGE_SIZE) };
+  });
   const availableTags = Array.from(
     new Set<string>(extraStories.flatMap((story) => story.tags ?? []).map((tag) => tag.trim()).filter(Boolean))
   );
-  const locationSuggestions = LOCATION_SUGGESTIONS;
-  const topicSuggestions = TOPIC_SUGGESTIONS;
-  const onboardingPrompt = getOnboardingPrompt(onboardingStep);
+  const onboardingStep = onboarding.step;
+  const draft = onboarding.draft;
   const topicsReady = draft.topics.trim().length > 0;
+  // Stories as voice commands count them: the lead, then each section in order, under the active tag.
+  const frontPageOrder = leadStory ? [leadStory, ...sections.flatMap((group) => group.items)] : [];
+
+  /** Push-to-talk: the microphone stays open while the button is held. */
+  async function startVoiceCommand() {
+    if (commandSessionRef.current || !canListen) return;
+    // The reply to the last command would otherwise be heard as the next one.
+    speakAbortRef.current?.abort();
+    setCommandReply(null);
+    // Held down, so only letting go (or the length limit) ends it, not a pause.
+    const session = speech.input.listen({ vad: { ...vadSettings, silenceMs: Infinity, noSpeechMs: Infinity } });
+    commandSessionRef.current = session;
+    setCommandListening(true);
+    let heard = "";
+    try {
+      heard = (await session.result).trim();
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setCommandReply({ heard: "", reply: error instanceof Error ? error.message : "Speech recognition failed." });
+      }
+      return;
+    } finally {
+      commandSessionRef.current = null;
+      setCommandListening(false);
+    }
+    if (!heard) {
+      setCommandReply({ heard: "", reply: "I didn't catch that. Hold the button while you speak." });
+      return;
+    }
+    await handleVoiceCommand(heard);
+  }
+
+  function stopVoiceCommand() {
+    commandSessionRef.current?.stop();
+  }
+
+  async function handleVoiceCommand(heard: string) {
+    const answer = (reply: string, link?: string) => {
+      setCommandReply({ heard, reply, link });
+      void speak(reply);
+    };
+    const command = parseVoiceCommand(heard, availableTags);
+    if (!command) {
+      answer(`Sorry, I don't know how to do that. Say "help" to hear what I can do.`);
+      return;
+    }
+    const scrollToSection = (category: NewsCategory) =>
+      document.getElementById(sectionAnchor(category))?.scrollIntoView({ behavior: "smooth" });
+    const sectionLabel = (category?: NewsCategory) =>
+      NEWS_SECTIONS.find((section) => section.category === category)?.label ?? "That section";
+    const story = command.index === undefined
+      ? frontPageOrder.find((candidate) => storyKey(candidate) === voiceFocusRef.current)
+      : frontPageOrder[command.index];
+
+    if (command.kind === "stop") {
+      speakAbortRef.current?.abort();
+      setNarratingKey(null);
+      setCommandReply({ heard, reply: "Stopped." });
+      return;
+    }
+    if (command.kind === "help") {
+      answer(`You can say: ${VOICE_COMMAND_EXAMPLES.join(", ")}.`);
+      return;
+    }
+    if (command.kind === "refresh") {
+      if (running) {
+        answer("Your briefing is already being gathered.");
+        return;
+      }
+      answer("Refreshing your briefing.");
+      if (profile) void runBrief(profile);
+      return;
+    }
+    if (command.kind === "clear-filter") {
+      setActiveTag(null);
+      setSectionPages({});
+      answer(`Showing all ${stories.length} stories.`);
+      return;
+    }
+    if (command.kind === "filter") {
+      const tag = command.tag ?? "";
+      if (!availableTags.includes(tag)) {
+        answer(`No stories are tagged ${tag} today.`);
+        return;
+      }
+      setActiveTag(tag);
+      setSectionPages({});
+      const count = storiesWithTag(extraStories, tag).length;
+      answer(`Showing ${count} ${tag} stor${count === 1 ? "y" : "ies"}.`);
+      return;
+    }
+    if (command.kind === "section") {
+      const group = sections.find(({ section }) => section.category === command.section);
+      if (!group) {
+        answer(`${sectionLabel(command.section)} has no stories in this edition.`);
+        return;
+      }
+      scrollToSection(group.section.category);
+      answer(`${group.section.label}: ${group.items.length} stor${group.items.length === 1 ? "y" : "ies"}.`);
+      return;
+    }
+    if (command.kind === "next-page" || command.kind === "previous-page") {
+      // A named section, else the one holding the story last talked about, else the first with more pages.
+      const group = command.section
+        ? sections.find(({ section }) => section.category === command.section)
+        : sections.find(
+            ({ items, totalPages }) =>
+              totalPages > 1 && items.some((candidate) => storyKey(candidate) === voiceFocusRef.current)
+          ) ?? sections.find(({ totalPages }) => totalPages > 1);
+      if (!group || group.totalPages < 2) {
+        answer(command.section ? `${sectionLabel(command.section)} fits on one page.` : "Every section fits on one page.");
+        return;
+      }
+      const page = group.page + (command.kind === "next-page" ? 1 : -1);
+      if (page < 1 || page > group.totalPages) {
+        answer(`That is the ${page < 1 ? "first" : "last"} page of ${group.section.label}.`);
+        return;
+      }
+      setSectionPages((prev) => ({ ...prev, [group.section.category]: page }));
+      scrollToSection(group.section.category);
+      answer(`${group.section.label}, page ${page} of ${group.totalPages}.`);
+      return;
+    }
+    if (!story) {
+      answer(
+        command.index === undefined
+          ? `Which story? Try "${command.kind === "read" ? "read me" : "open"} the third story".`
+          : `There are only ${frontPageOrder.length} stories on the front page.`
+      );
+      return;
+    }
+    const key = storyKey(story);
+    voiceFocusRef.current = key;
+    if (command.kind === "open") {
+      if (!story.url) {
+        answer("That story has no link.");
+        return;
+      }
+      // The transcript arrives after the button is released, so browsers may treat this as a pop-up.
+      const opened = window.open(story.url, "_blank");
+      if (!opened) {
+        answer("Your browser blocked the new tab. Use the link below instead.", story.url);
+        return;
+      }
+      opened.opener = null;
+      setLibrary((prev) => markRead(prev, story));
+      answer(`Opened the story from ${story.source || sourceHost(story.url)}.`);
+      return;
+    }
+    setNarratingKey(key);
+    setCommandReply({ heard, reply: `Reading "${story.title}".` });
+    await speak(`${speechText(story.title)}. ${speechText(story.summary)}`);
+    setNarratingKey((prev) => (prev === key ? null : prev));
+  }
 
   if (showOnboarding) {
     return (
@@ -676,6 +1131,11 @@ export default function App() {
             <span className={`onboarding-step ${onboardingStep === "location" ? "is-active" : ""}`}>Location</span>
             <span className={`onboarding-step ${onboardingStep === "topics" ? "is-active" : ""}`}>Topics</span>
             <span className={`onboarding-step ${onboardingStep === "confirm" ? "is-active" : ""}`}>Confirm</span>
+            {profile && (
+              <button className="chip chip--paper" type="button" onClick={cancelOnboarding}>
+                Back to {profile.name}
+              </button>
+            )}
           </div>
         </header>
         <main className="onboarding-stage">
@@ -683,13 +1143,18 @@ export default function App() {
             <div className="onboarding-copy">
               <p className="eyebrow">Onboarding</p>
               <h2 className="onboarding-title">Meet the living orb</h2>
-              <p className="onboarding-prompt">{onboardingPrompt}</p>
+              <p className="onboarding-prompt">{onboarding.question.text}</p>
               <p className="onboarding-hint">
-                {listening ? "Listening..." : "I will open the mic right after I finish speaking."}
+                {listening
+                  ? "Listening... I will stop when you pause."
+                  : canListen
+                    ? "I will open the mic right after I finish speaking."
+                    : "Type your answers below."}
               </p>
+              <p className="muted">{describeSpeech(speech)}</p>
               {speechError && <p className="muted">{speechError}</p>}
-              {onboardingParsing && <p className="muted">Working on your answer...</p>}
-              {onboardingParseError && <p className="muted">{onboardingParseError}</p>}
+              {onboarding.parsing && <p className="muted">Working on your answer...</p>}
+              {onboarding.error && <p className="muted">{onboarding.error}</p>}
               {transcript && (
                 <div className="orb-transcript">
                   <span className="eyebrow">Heard</span>
@@ -698,11 +1163,12 @@ export default function App() {
               )}
             </div>
             <div
+              ref={orbRef}
               className={`orb orb--living ${speaking ? "orb--speaking" : ""} ${listening ? "orb--listening" : ""} ${
                 onboardingStep === "location" || onboardingStep === "topics" ? "orb--ready" : ""
               }`}
               onClick={() => {
-                if (onboardingStep !== "location" && onboardingStep !== "topics") return;
+                if (!canListen || (onboardingStep !== "location" && onboardingStep !== "topics")) return;
                 if (listening) stopListening();
                 else startListening();
               }}
@@ -710,7 +1176,7 @@ export default function App() {
               tabIndex={0}
               onKeyDown={(event) => {
                 if (event.key !== "Enter" && event.key !== " ") return;
-                if (onboardingStep !== "location" && onboardingStep !== "topics") return;
+                if (!canListen || (onboardingStep !== "location" && onboardingStep !== "topics")) return;
                 if (listening) stopListening();
                 else startListening();
               }}
@@ -727,7 +1193,7 @@ export default function App() {
                   <button
                     className="button button--paper"
                     type="button"
-                    onClick={() => setOnboardingStep("location")}
+                    onClick={() => dispatchOnboarding({ type: "next" })}
                   >
                     Let us begin
                   </button>
@@ -741,27 +1207,26 @@ export default function App() {
                       rows={3}
                       placeholder="Tell me the region and the topics you care about."
                       value={onboardingQuery}
-                      onChange={(event) => {
-                        setOnboardingParseError(null);
-                        setOnboardingQuery(event.target.value);
-                      }}
+                      onChange={(event) => setOnboardingQuery(event.target.value)}
                     />
                   </div>
                   <div className="orb-actions__row">
-                    <button
-                      className="button button--ghost"
-                      type="button"
-                      onClick={listening ? stopListening : startListening}
-                    >
-                      {listening ? "Stop listening" : "Speak response"}
-                    </button>
+                    {canListen && (
+                      <button
+                        className="button button--ghost"
+                        type="button"
+                        onClick={listening ? stopListening : startListening}
+                      >
+                        {listening ? "Stop listening" : "Speak response"}
+                      </button>
+                    )}
                     <button
                       className="button button--paper"
                       type="button"
                       onClick={() => handleOnboardingResponse(onboardingQuery)}
-                      disabled={onboardingParsing || !onboardingQuery.trim()}
+                      disabled={onboarding.parsing || !onboardingQuery.trim()}
                     >
-                      {onboardingParsing ? "Parsing..." : "Send to assistant"}
+                      {onboarding.parsing ? "Parsing..." : "Send to assistant"}
                     </button>
                   </div>
                   <div className="field">
@@ -770,38 +1235,28 @@ export default function App() {
                       type="text"
                       placeholder="Global, Singapore, Bay Area"
                       value={draft.location}
-                      onChange={(event) => {
-                        setOnboardingFollowup(null);
-                        setDraft((prev) => ({
-                          ...prev,
-                          location: event.target.value,
-                        }));
-                      }}
+                      onChange={(event) =>
+                        dispatchOnboarding({ type: "edit", field: "location", value: event.target.value })
+                      }
                     />
                   </div>
                   <div className="tag-row">
-                    {locationSuggestions.map((suggestion) => (
+                    {LOCATION_SUGGESTIONS.map((suggestion) => (
                       <button
                         key={suggestion}
                         type="button"
                         className="chip chip--paper"
-                        onClick={() => {
-                          setOnboardingFollowup(null);
-                          setDraft((prev) => ({
-                            ...prev,
-                            location: suggestion,
-                          }));
-                        }}
+                        onClick={() => dispatchOnboarding({ type: "edit", field: "location", value: suggestion })}
                       >
                         {suggestion}
                       </button>
                     ))}
                   </div>
                   <div className="orb-actions__row">
-                    <button className="button button--ghost" type="button" onClick={() => setOnboardingStep("intro")}>
+                    <button className="button button--ghost" type="button" onClick={() => dispatchOnboarding({ type: "back" })}>
                       Back
                     </button>
-                    <button className="button button--paper" type="button" onClick={() => setOnboardingStep("topics")}>
+                    <button className="button button--paper" type="button" onClick={() => dispatchOnboarding({ type: "next" })}>
                       Continue
                     </button>
                   </div>
@@ -814,28 +1269,27 @@ export default function App() {
                     <textarea
                       rows={3}
                       placeholder="Share any extra details about what you want to follow."
-                      value={onboardingQuery}
-                      onChange={(event) => {
-                        setOnboardingParseError(null);
-                        setOnboardingQuery(event.target.value);
-                      }}
-                    />
-                  </div>
-                  <div className="orb-actions__row">
-                    <button
-                      className="button button--ghost"
-                      type="button"
-                      onClick={listening ? stopListening : startListening}
-                    >
-                      {listening ? "Stop listening" : "Speak response"}
-                    </button>
+                      value={onboardingQuery}
+                      onChange={(event) => setOnboardingQuery(event.target.value)}
+                    />
+                  </div>
+                  <div className="orb-actions__row">
+                    {canListen && (
+                      <button
+                        className="button button--ghost"
+                        type="button"
+                        onClick={listening ? stopListening : startListening}
+                      >
+                        {listening ? "Stop listening" : "Speak response"}
+                      </button>
+                    )}
                     <button
                       className="button button--paper"
                       type="button"
                       onClick={() => handleOnboardingResponse(onboardingQuery)}
-                      disabled={onboardingParsing || !onboardingQuery.trim()}
+                      disabled={onboarding.parsing || !onboardingQuery.trim()}
                     >
-                      {onboardingParsing ? "Parsing..." : "Send to assistant"}
+                      {onboarding.parsing ? "Parsing..." : "Send to assistant"}
                     </button>
                   </div>
                   <div className="field">
@@ -844,28 +1298,24 @@ export default function App() {
                       type="text"
                       placeholder="AI policy, product launches, fintech, consumer tech"
                       value={draft.topics}
-                      onChange={(event) => {
-                        setOnboardingFollowup(null);
-                        setDraft((prev) => ({
-                          ...prev,
-                          topics: event.target.value,
-                        }));
-                      }}
+                      onChange={(event) =>
+                        dispatchOnboarding({ type: "edit", field: "topics", value: event.target.value })
+                      }
                     />
                   </div>
                   <div className="tag-row">
-                    {topicSuggestions.map((suggestion) => (
+                    {TOPIC_SUGGESTIONS.map((suggestion) => (
                       <button
                         key={suggestion}
                         type="button"
                         className="chip chip--paper"
-                        onClick={() => {
-                          setOnboardingFollowup(null);
-                          setDraft((prev) => ({
-                            ...prev,
-                            topics: prev.topics ? `${prev.topics}, ${suggestion}` : suggestion,
-                          }));
-                        }}
+                        onClick={() =>
+                          dispatchOnboarding({
+                            type: "edit",
+                            field: "topics",
+                            value: draft.topics ? `${draft.topics}, ${suggestion}` : suggestion,
+                          })
+                        }
                       >
                         {suggestion}
                       </button>
@@ -875,14 +1325,14 @@ export default function App() {
                     <button
                       className="button button--ghost"
                       type="button"
-                      onClick={() => setOnboardingStep("location")}
+                      onClick={() => dispatchOnboarding({ type: "back" })}
                     >
                       Back
                     </button>
                     <button
                       className="button button--paper"
                       type="button"
-                      onClick={() => setOnboardingStep("confirm")}
+                      onClick={() => dispatchOnboarding({ type: "next" })}
                       disabled={!topicsReady}
                     >
                       Review
@@ -898,8 +1348,17 @@ export default function App() {
                     <p className="eyebrow">Topics</p>
                     <p>{draft.topics}</p>
                   </div>
+                  <div className="field">
+                    <span>Profile name</span>
+                    <input
+                      type="text"
+                      placeholder={defaultProfileName(draft)}
+                      value={draftName}
+                      onChange={(event) => setDraftName(event.target.value)}
+                    />
+                  </div>
                   <div className="orb-actions__row">
-                    <button className="button button--ghost" type="button" onClick={() => setOnboardingStep("topics")}>
+                    <button className="button button--ghost" type="button" onClick={() => dispatchOnboarding({ type: "back" })}>
                       Edit topics
                     </button>
                     <button
@@ -930,6 +1389,143 @@ export default function App() {
         </div>
         {profile && !showOnboarding && (
           <div className="masthead__meta">
+            <div className="masthead__profile">
+              <p className="eyebrow">Profile</p>
+              <select
+                className="select select--paper"
+                aria-label="Reader profile"
+                value={profile.id}
+                onChange={(event) => switchProfile(event.target.value)}
+                disabled={running}
+              >
+                {profileStore.profiles.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.name}
+                  </option>
+                ))}
+                <option value={NEW_PROFILE_OPTION}>New profile…</option>
+              </select>
+              {profileStore.profiles.length > 1 && (
+                <button className="chip chip--paper" type="button" onClick={deleteProfile} disabled={running}>
+                  Delete profile
+                </button>
+              )}
+              <details className="archive-settings archive-settings--start">
+                <summary>Preferences</summary>
+                <label className="archive-settings__field">
+                  <span>Leave out</span>
+                  <input
+                    className="archive-settings__text"
+                    placeholder="Topics, comma-separated"
+                    value={preferencesForm.excludedTopics}
+                    onChange={(event) => setPreferencesForm((prev) => ({ ...prev, excludedTopics: event.target.value }))}
+                  />
+                </label>
+                <label className="archive-settings__field">
+                  <span>Block sites</span>
+                  <input
+                    className="archive-settings__text"
+                    placeholder="example.com"
+                    value={preferencesForm.blockedDomains}
+                    onChange={(event) => setPreferencesForm((prev) => ({ ...prev, blockedDomains: event.target.value }))}
+                  />
+                </label>
+                <label className="archive-settings__field">
+                  <span>Prefer sites</span>
+                  <input
+                    className="archive-settings__text"
+                    placeholder="example.com"
+                    value={preferencesForm.preferredDomains}
+                    onChange={(event) => setPreferencesForm((prev) => ({ ...prev, preferredDomains: event.target.value }))}
+                  />
+                </label>
+                <label className="archive-settings__field">
+                  <span>Language</span>
+                  <input
+                    className="archive-settings__text"
+                    placeholder="Any"
+                    value={preferencesForm.language}
+                    onChange={(event) => setPreferencesForm((prev) => ({ ...prev, language: event.target.value }))}
+                  />
+                </label>
+                <label className="archive-settings__field">
+                  <input
+                    type="number"
+                    min={STORY_COUNT_RANGE.min}
+                    max={STORY_COUNT_RANGE.max}
+                    value={preferencesForm.storyCount}
+                    onChange={(event) => setPreferencesForm((prev) => ({ ...prev, storyCount: Number(event.target.value) }))}
+                  />
+                  <span>stories from the past</span>
+                  <input
+                    type="number"
+                    min={RECENCY_DAYS_RANGE.min}
+                    max={RECENCY_DAYS_RANGE.max}
+                    value={preferencesForm.recencyDays}
+                    onChange={(event) => setPreferencesForm((prev) => ({ ...prev, recencyDays: Number(event.target.value) }))}
+                  />
+                  <span>days</span>
+                </label>
+                {WEIGHTED_CATEGORIES.map((category) => (
+                  <label className="archive-settings__field" key={category}>
+                    <span>{category}</span>
+                    <select
+                      value={preferencesForm.categoryWeights[category]}
+                      onChange={(event) =>
+                        setPreferencesForm((prev) => ({
+                          ...prev,
+                          categoryWeights: { ...prev.categoryWeights, [category]: Number(event.target.value) },
+                        }))
+                      }
+                    >
+                      {CATEGORY_WEIGHT_LABELS.slice(0, MAX_CATEGORY_WEIGHT + 1).map((label, weight) => (
+                        <option key={label} value={weight}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <div className="archive-settings__field">
+                  <button className="chip chip--paper" type="button" onClick={savePreferences}>
+                    Save
+                  </button>
+                </div>
+                <p className="archive-settings__note">
+                  Applies from the next edition. Blocked sites, left-out topics and old stories are also removed after
+                  research.
+                </p>
+              </details>
+              <details className="archive-settings archive-settings--start">
+                <summary>Learned interests</summary>
+                {interests.boosted.length || interests.suppressed.length ? (
+                  <>
+                    {[
+                      { label: "More of", signals: interests.boosted },
+                      { label: "Less of", signals: interests.suppressed },
+                    ]
+                      .filter((group) => group.signals.length)
+                      .map((group) => (
+                        <div className="archive-settings__field interest-list" key={group.label}>
+                          <span>{group.label}</span>
+                          <span>{group.signals.slice(0, 12).map(formatSignal).join(", ")}</span>
+                        </div>
+                      ))}
+                    <div className="archive-settings__field">
+                      <button className="chip chip--paper" type="button" onClick={resetInterests}>
+                        Reset
+                      </button>
+                    </div>
+                  </>
+                ) : null}
+                <p className="archive-settings__note">
+                  {profile.feedback?.length
+                    ? `Built from ${profile.feedback.length} rating(s). Strong signals go into the research prompt, ` +
+                      "and every brief is reordered by them."
+                    : "Rate stories with 👍, 👎, More like this or Less like this to tune future briefings."}
+                </p>
+              </details>
+            </div>
             <div>
               <p className="eyebrow">Edition</p>
               <p className="masthead__value">{profile.location || "Global"}</p>
@@ -942,6 +1538,269 @@ export default function App() {
               <p className="eyebrow">Updated</p>
               <p className="masthead__value">{lastUpdated || "—"}</p>
             </div>
+            <div className="masthead__archive">
+              <p className="eyebrow">Past editions</p>
+              <select
+                className="select select--paper"
+                aria-label="Edition"
+                value={activeEditionId ?? ""}
+                onChange={(event) => event.target.value && openEdition(event.target.value)}
+                disabled={running || editions.length === 0}
+              >
+                {!activeEditionId && <option value="">{editions.length ? "Choose an edition" : "No editions yet"}</option>}
+                {editions.map((edition) => (
+                  <option key={edition.id} value={edition.id}>
+                    {new Date(edition.createdAt).toLocaleString()} · {edition.profile.location || "Global"} ·{" "}
+                    {edition.storyCount} stories{edition.scheduledFor ? " · scheduled" : ""}
+                  </option>
+                ))}
+              </select>
+              <details className="archive-settings">
+                <summary>Retention</summary>
+                <label className="archive-settings__field">
+                  <span>Keep last</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={retention.maxEditions}
+                    onChange={(event) =>
+                      updateRetention({ ...retention, maxEditions: Math.max(1, Number(event.target.value) || 1) })
+                    }
+                  />
+                  <span>editions</span>
+                </label>
+                <label className="archive-settings__field">
+                  <span>Drop after</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={retention.maxAgeDays}
+                    onChange={(event) =>
+                      updateRetention({ ...retention, maxAgeDays: Math.max(0, Number(event.target.value) || 0) })
+                    }
+                  />
+                  <span>days (0 keeps forever)</span>
+                </label>
+              </details>
+              <details
+                className="archive-settings"
+                onToggle={(event) => {
+                  if (!event.currentTarget.open) return;
+                  fetchSchedule().then((next) => next && setScheduleState(next));
+                  fetchEmailStatus().then(setEmailStatus);
+                }}
+              >
+                <summary>Delivery</summary>
+                <label className="archive-settings__field">
+                  <span>Delivery secret</span>
+                  <input
+                    className="archive-settings__text"
+                    type="password"
+                    autoComplete="off"
+                    defaultValue={deliverySecret}
+                    onBlur={(event) => {
+                      const next = event.target.value.trim();
+                      if (next === deliverySecret) return;
+                      saveDeliverySecret(next);
+                      setDeliverySecret(next);
+                    }}
+                  />
+                </label>
+                {!scheduleState && (
+                  <p className="archive-settings__note">
+                    Scheduling and email need DELIVERY_SECRET from the server. This browser keeps it once entered.
+                  </p>
+                )}
+                <label className="archive-settings__field">
+                  <input
+                    type="checkbox"
+                    checked={deliveryDraft.enabled}
+                    onChange={(event) => setDeliveryDraft((prev) => ({ ...prev, enabled: event.target.checked }))}
+                  />
+                  <span>Have a fresh edition ready every day at</span>
+                </label>
+                {deliveryDraft.times.map((time, index) => (
+                  <div className="archive-settings__field" key={index}>
+                    <input
+                      className="archive-settings__time"
+                      type="time"
+                      aria-label={`Delivery time ${index + 1}`}
+                      value={time}
+                      onChange={(event) =>
+                        setDeliveryDraft((prev) => ({
+                          ...prev,
+                          times: prev.times.map((value, position) => (position === index ? event.target.value : value)),
+                        }))
+                      }
+                    />
+                    <button
+                      className="chip chip--paper"
+                      type="button"
+                      onClick={() =>
+                        setDeliveryDraft((prev) => ({
+                          ...prev,
+                          times: prev.times.filter((_, position) => position !== index),
+                        }))
+                      }
+                      disabled={deliveryDraft.times.length === 1}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <div className="archive-settings__field">
+                  <button
+                    className="chip chip--paper"
+                    type="button"
+                    onClick={() => setDeliveryDraft((prev) => ({ ...prev, times: [...prev.times, "18:00"] }))}
+                    disabled={deliveryDraft.times.length >= MAX_DELIVERY_TIMES}
+                  >
+                    Add time
+                  </button>
+                  <button className="chip chip--paper" type="button" onClick={saveDelivery}>
+                    Save
+                  </button>
+                </div>
+                <label className="archive-settings__field">
+                  <span>Email each delivery to</span>
+                  <input
+                    className="archive-settings__text"
+                    type="text"
+                    placeholder="you@example.com"
+                    value={deliveryDraft.emailTo}
+                    onChange={(event) => setDeliveryDraft((prev) => ({ ...prev, emailTo: event.target.value }))}
+                  />
+                </label>
+                <div className="archive-settings__field">
+                  <button
+                    className="chip chip--paper"
+                    type="button"
+                    onClick={emailTestDigest}
+                    disabled={running || !stories.length || !emailStatus?.configured}
+                  >
+                    Send test digest
+                  </button>
+                </div>
+                <p className="archive-settings__note">
+                  {emailStatus?.configured
+                    ? `Mail goes through ${emailStatus.server} from ${emailStatus.from}. The test digest sends the edition on screen.`
+                    : "Email needs SMTP_HOST (and optionally SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM) on the server."}
+                </p>
+                {digestNote && <p className="archive-settings__note">{digestNote}</p>}
+                {scheduleState?.schedule && scheduleState.schedule.profile.id !== profile.id && (
+                  <p className="archive-settings__note">
+                    Deliveries follow {scheduleState.schedule.profile.name || "another profile"}; saving here switches them
+                    to {profile.name}.
+                  </p>
+                )}
+                <p className="archive-settings__note">
+                  Times are in {localTimeZone()}.{" "}
+                  {scheduleState?.nextRunAt
+                    ? `Next delivery ${new Date(scheduleState.nextRunAt).toLocaleString()}.`
+                    : "No delivery scheduled."}
+                </p>
+                {deliveryError && <p className="archive-settings__note archive-settings__note--error">{deliveryError}</p>}
+                {!!scheduleState?.runs.length && (
+                  <ul className="delivery-runs">
+                    {scheduleState.runs.slice(0, 5).map((run) => (
+                      <li key={run.id} className={`delivery-runs__item delivery-runs__item--${run.status}`}>
+                        <span>{new Date(run.slot).toLocaleString()}</span>
+                        <span>
+                          {run.status}
+                          {run.trigger === "catch-up" ? " (catch-up)" : ""}
+                          {run.storyCount !== undefined ? ` · ${run.storyCount} stories` : ""}
+                          {run.error ? ` · ${run.error}` : ""}
+                          {run.emailedTo ? " · emailed" : ""}
+                          {run.emailError ? ` · email failed: ${run.emailError}` : ""}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </details>
+              <details className="archive-settings">
+                <summary>Export</summary>
+                <div className="archive-settings__field">
+                  <button
+                    className="chip chip--paper"
+                    type="button"
+                    onClick={() => exportEdition("markdown")}
+                    disabled={running || !stories.length}
+                  >
+                    Markdown
+                  </button>
+                  <button
+                    className="chip chip--paper"
+                    type="button"
+                    onClick={() => setPrinting(true)}
+                    disabled={running || !stories.length}
+                  >
+                    Print / PDF
+                  </button>
+                  <button
+                    className="chip chip--paper"
+                    type="button"
+                    onClick={() => exportEdition("epub")}
+                    disabled={running || !stories.length}
+                  >
+                    EPUB
+                  </button>
+                </div>
+                <p className="archive-settings__note">
+                  Exports the edition on screen. Subscribe to the{" "}
+                  <a href={feedUrl(profile.id)} target="_blank" rel="noreferrer">
+                    Atom feed
+                  </a>{" "}
+                  in a feed reader for scheduled deliveries; editions made in this browser stay here.
+                </p>
+              </details>
+              {canListen && (
+                <details className="archive-settings">
+                  <summary>Voice input</summary>
+                  <label className="archive-settings__field">
+                    <span>Speech above</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={Math.round(vadSettings.threshold * 100)}
+                      onChange={(event) =>
+                        updateVadSettings({ threshold: Math.min(100, Math.max(1, Number(event.target.value) || 1)) / 100 })
+                      }
+                    />
+                    <span>% input level</span>
+                  </label>
+                  {[
+                    { key: "silenceMs" as const, label: "Stop after", unit: "s of silence", min: 0.3 },
+                    { key: "noSpeechMs" as const, label: "Give up after", unit: "s with nothing said", min: 1 },
+                    { key: "maxMs" as const, label: "Answers up to", unit: "s", min: 2 },
+                  ].map(({ key, label, unit, min }) => (
+                    <label className="archive-settings__field" key={key}>
+                      <span>{label}</span>
+                      <input
+                        type="number"
+                        min={min}
+                        step={0.1}
+                        value={vadSettings[key] / 1000}
+                        onChange={(event) =>
+                          updateVadSettings({ [key]: Math.max(min, Number(event.target.value) || min) * 1000 })
+                        }
+                      />
+                      <span>{unit}</span>
+                    </label>
+                  ))}
+                  <div className="archive-settings__field">
+                    <button className="chip chip--paper" type="button" onClick={() => updateVadSettings(DEFAULT_VAD)}>
+                      Defaults
+                    </button>
+                  </div>
+                  <p className="archive-settings__note">
+                    Used when the mic is open during onboarding and for Hold to talk. Raise the level if background noise
+                    keeps the mic open; lower it if answers get cut off.
+                  </p>
+                </details>
+              )}
+            </div>
           </div>
         )}
       </header>
@@ -949,18 +1808,221 @@ export default function App() {
       <main className="grid">
 
         {profile && !showOnboarding && (
+          <section className="panel panel--wide panel--paper editor-panel">
+            <form
+              className="editor-panel__form"
+              onSubmit={(event) => {
+                event.preventDefault();
+                void askEditor(editorRequest);
+              }}
+            >
+              <input
+                className="editor-panel__input"
+                placeholder="Tell your editor, e.g. “add crypto, drop sports, focus on Penang”"
+                aria-label="Tell your editor"
+                value={editorRequest}
+                onChange={(event) => setEditorRequest(event.target.value)}
+                disabled={editorBusy}
+              />
+              <button className="button button--paper" type="submit" disabled={editorBusy || !editorRequest.trim()}>
+                {editorBusy ? "Reading" : "Send"}
+              </button>
+              {canListen && (
+                <button className="button button--ghost" type="button" onClick={listenToEditor} disabled={editorBusy}>
+                  {editorListening ? "Listening…" : "Speak"}
+                </button>
+              )}
+            </form>
+            {editorNote && <p className="muted">{editorNote}</p>}
+            {editorProposal && (
+              <div className="editor-panel__proposal">
+                <p>Change “{profile.name}”:</p>
+                <ul>
+                  {describeProfileEdit(editorProposal.edit).map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+                <div className="editor-panel__actions">
+                  <button className="chip chip--paper" type="button" onClick={applyEditorProposal}>
+                    Apply
+                  </button>
+                  <button className="chip chip--paper" type="button" onClick={() => setEditorProposal(null)}>
+                    Discard
+                  </button>
+                </div>
+              </div>
+            )}
+            {profile.changes?.length ? (
+              <details className="archive-settings archive-settings--start">
+                <summary>Change history ({profile.changes.length})</summary>
+                <ol className="editor-panel__history">
+                  {profile.changes.map((change) => (
+                    <li key={change.at}>
+                      <span className="muted">{new Date(change.at).toLocaleString()}</span> “{change.request}”:{" "}
+                      {describeProfileEdit(change.edit).join("; ")}
+                    </li>
+                  ))}
+                </ol>
+              </details>
+            ) : null}
+          </section>
+        )}
+
+        {profile && !showOnboarding && (
+          <section className="panel panel--wide panel--paper search-panel">
+            <div className="search-panel__controls">
+              <input
+                className="search-panel__query"
+                type="search"
+                placeholder={`Search ${editions.length} edition${editions.length === 1 ? "" : "s"} of ${profile.name}`}
+                aria-label="Search past editions"
+                value={searchQuery}
+                onChange={(event) => setSearchQuery(event.target.value)}
+              />
+              <label>
+                <span>From</span>
+                <input
+                  type="date"
+                  value={searchFilters.from}
+                  onChange={(event) => setSearchFilters((prev) => ({ ...prev, from: event.target.value }))}
+                />
+              </label>
+              <label>
+                <span>To</span>
+                <input
+                  type="date"
+                  value={searchFilters.to}
+                  onChange={(event) => setSearchFilters((prev) => ({ ...prev, to: event.target.value }))}
+                />
+              </label>
+              <select
+                className="select select--paper"
+                aria-label="Section"
+                value={searchFilters.category}
+                onChange={(event) =>
+                  setSearchFilters((prev) => ({ ...prev, category: event.target.value as SearchFilters["category"] }))
+                }
+              >
+                <option value="">All sections</option>
+                {NEWS_SECTIONS.map((section) => (
+                  <option key={section.category} value={section.category}>
+                    {section.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="select select--paper"
+                aria-label="Source"
+                value={searchFilters.source}
+                onChange={(event) => setSearchFilters((prev) => ({ ...prev, source: event.target.value }))}
+              >
+                <option value="">All sources</option>
+                {listSources(searchDocuments).map((source) => (
+                  <option key={source} value={source}>
+                    {source}
+                  </option>
+                ))}
+              </select>
+              {searchActive && (
+                <button
+                  className="chip chip--paper"
+                  type="button"
+                  onClick={() => {
+                    setSearchQuery("");
+                    setSearchFilters(EMPTY_SEARCH_FILTERS);
+                  }}
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {searchActive && (
+              <>
+                <p className="muted">
+                  {searchResults.length
+                    ? `${searchResults.length} match${searchResults.length === 1 ? "" : "es"}`
+                    : "Nothing in the archive matches."}
+                </p>
+                <ul className="search-results">
+                  {searchResults.map((result) => (
+                    <li key={result.document.id} className="search-results__item">
+                      <button type="button" onClick={() => openSearchResult(result)} disabled={running}>
+                        <span className="search-results__meta">
+                          {new Date(result.document.editionCreatedAt).toLocaleString()}
+                          {result.document.category ? ` · ${result.document.category}` : ""}
+                          {result.document.sources[0] ? ` · ${result.document.sources[0]}` : ""}
+                          {result.document.editionId === activeEditionId ? " · on screen" : ""}
+                        </span>
+                        <strong>{renderHighlight(result.document.title, result.terms)}</strong>
+                        <span>{renderHighlight(snippet(result.document.summary, result.terms), result.terms)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+        )}
+
+        {profile && !showOnboarding && showSaved && (
           <section className="panel panel--wide panel--paper">
             <div className="panel__header panel__header--tight">
               <div>
-                <p className="eyebrow">{safePage === 1 ? "Front page" : `Page ${safePage}`}</p>
-                <h3>{safePage === 1 ? "Your personalized edition" : "More stories"}</h3>
+                <p className="eyebrow">Saved</p>
+                <h3>Read later</h3>
                 <p className="muted">
-                  {safePage === 1
-                    ? "Pulling signals from social chatter and community discussion."
-                    : "Continuing your personalized briefing."}
+                  {library.saved.length
+                    ? `${library.saved.filter((entry) => !library.read.includes(entry.key)).length} unread of ${
+                        library.saved.length
+                      }. Saved stories stay here through refreshes and profile switches.`
+                    : "Nothing saved yet. Use “Save for later” on any story."}
                 </p>
               </div>
               <div className="panel__actions">
+                <button className="button button--ghost" type="button" onClick={() => setShowSaved(false)}>
+                  Close
+                </button>
+              </div>
+            </div>
+            {library.saved.length > 0 && (
+              <div className="news-grid news-grid--masonry">
+                {library.saved.map((entry) => (
+                  <StoryCard key={entry.key} className="news-card--standard" {...storyCardProps(entry.story)} />
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {profile && !showOnboarding && (
+          <section className="panel panel--wide panel--paper" id={FRONT_PAGE_ANCHOR}>
+            <div className="panel__header panel__header--tight">
+              <div>
+                <p className="eyebrow">Front page</p>
+                <h3>Your personalized edition</h3>
+                <p className="muted">Pulling signals from social chatter and community discussion.</p>
+              </div>
+              <div className="panel__actions">
+                <select
+                  className="select select--paper"
+                  aria-label="Research backend"
+                  value={backendId}
+                  onChange={(event) => {
+                    backendChosenRef.current = true;
+                    setBackendId(event.target.value as ResearchBackendId);
+                  }}
+                  disabled={running}
+                >
+                  {backends.map((candidate) => (
+                    <option
+                      key={candidate.id}
+                      value={candidate.id}
+                      disabled={!isBackendAvailable(candidate, availability ?? {})}
+                    >
+                      {candidate.label}
+                    </option>
+                  ))}
+                </select>
                 <button
                   className="button button--paper"
                   type="button"
@@ -969,33 +2031,96 @@ export default function App() {
                 >
                   {running ? "Gathering" : "Refresh"}
                 </button>
+                {running && (
+                  <button className="button button--ghost" type="button" onClick={cancelBrief}>
+                    Cancel
+                  </button>
+                )}
+                <button
+                  className="button button--ghost"
+                  type="button"
+                  aria-pressed={showSaved}
+                  onClick={() => setShowSaved((prev) => !prev)}
+                >
+                  Saved ({library.saved.length})
+                </button>
                 <button
                   className="button button--ghost"
                   type="button"
-                  onClick={resetOnboarding}
+                  onClick={() => startOnboarding("edit")}
+                  disabled={running}
                 >
-                  Reset
+                  Edit profile
                 </button>
+                {canListen && (
+                  <button
+                    className={`button button--ghost voice-command__button ${
+                      commandListening ? "voice-command__button--live" : ""
+                    }`}
+                    type="button"
+                    aria-pressed={commandListening}
+                    title={`Hold and speak, e.g. "${VOICE_COMMAND_EXAMPLES[1]}"`}
+                    onPointerDown={(event) => {
+                      event.currentTarget.setPointerCapture(event.pointerId);
+                      void startVoiceCommand();
+                    }}
+                    onPointerUp={stopVoiceCommand}
+                    onPointerCancel={stopVoiceCommand}
+                    onKeyDown={(event) => {
+                      if ((event.key === " " || event.key === "Enter") && !event.repeat) {
+                        event.preventDefault();
+                        void startVoiceCommand();
+                      }
+                    }}
+                    onKeyUp={(event) => {
+                      if (event.key === " " || event.key === "Enter") stopVoiceCommand();
+                    }}
+                  >
+                    {commandListening ? "Listening…" : "Hold to talk"}
+                  </button>
+                )}
               </div>
             </div>
-            {brief && safePage === 1 && !running && (
+            {commandReply && (
+              <p className="voice-command" aria-live="polite">
+                {commandReply.heard && <span className="voice-command__heard">“{commandReply.heard}”</span>}
+                <span>{commandReply.reply}</span>
+                {commandReply.link && (
+                  <a href={commandReply.link} target="_blank" rel="noreferrer">
+                    {sourceHost(commandReply.link)}
+                  </a>
+                )}
+              </p>
+            )}
+            {brief && !running && (
               <div className="front-summary">
                 <span className="front-summary__label">Front summary</span>
                 <div className="markdown">{renderMarkdown(brief)}</div>
               </div>
             )}
 
+            {!running && stories.length > 0 && speech.output.id !== "text" && (
+              <ReadAloudPlayer
+                voice={speech.output}
+                editionId={activeEditionId}
+                chapters={chapters}
+                onStoryChange={setNarratingKey}
+              />
+            )}
+
             {running && <p className="muted">Composing your front page... sit tight.</p>}
 
+            {!running && leadStory && <LeadStory profile={profile} {...storyCardProps(leadStory)} />}
+
             {running ? (
               <div className="news-grid news-grid--placeholder">
                 <p className="muted">Building your front page...</p>
               </div>
-            ) : extraStories.length === 0 ? (
+            ) : stories.length === 0 ? (
               <div className="news-card news-card--empty">
-                <p className="muted">Related stories will appear here once the brief is ready.</p>
+                <p className="muted">Stories will appear here once the brief is ready.</p>
               </div>
-            ) : (
+            ) : extraStories.length === 0 ? null : (
               <>
                 {availableTags.length > 0 && (
                   <div className="tag-filter">
@@ -1004,7 +2129,7 @@ export default function App() {
                       className={`chip chip--paper ${activeTag ? "" : "chip--active"}`}
                       onClick={() => {
                         setActiveTag(null);
-                        setPage(1);
+                        setSectionPages({});
                       }}
                     >
                       All
@@ -1016,7 +2141,7 @@ export default function App() {
                         className={`chip chip--paper ${activeTag === tag ? "chip--active" : ""}`}
                         onClick={() => {
                           setActiveTag(tag);
-                          setPage(1);
+                          setSectionPages({});
                         }}
                       >
                         {tag}
@@ -1024,71 +2149,68 @@ export default function App() {
                     ))}
                   </div>
                 )}
-                <div className="news-grid news-grid--masonry">
-                  {pagedStories
-                    .reduce<{ story: NewsItem; size: StorySize }[]>((acc, story) => {
-                      const prevSize = acc.length ? acc[acc.length - 1].size : null;
-                      const size = adjustStorySize(story, prevSize);
-                      acc.push({ story, size });
-                      return acc;
-                    }, [])
-                    .map(({ story, size }) => (
-                    <article
-                      key={`${story.title}-${story.url ?? "story"}`}
-                      className={`news-card ${size}`}
-                    >
-                      {story.mediaUrl && story.mediaType === "image" && (
-                        <img className="news-media" src={story.mediaUrl} alt={story.title} />
-                      )}
-                      {story.mediaUrl && story.mediaType === "video" && (
-                        <a className="news-link" href={story.mediaUrl} target="_blank" rel="noreferrer">
-                          Watch the clip
-                        </a>
-                      )}
-                      <h6 className="news-card__title">{renderMarkdown(story.title)}</h6>
-                      {story.tags?.length ? (
-                        <div className="tag-row">
-                          {story.tags.map((tag) => (
-                            <span key={`${story.title}-${tag}`} className="chip chip--paper">
-                              {tag}
-                            </span>
-                          ))}
-                        </div>
-                      ) : null}
-                      <div className="news-card__summary markdown">{renderMarkdown(story.summary)}</div>
-                      {story.url && (
-                        <a className="news-link" href={story.url} target="_blank" rel="noreferrer">
-                          Read full news
-                        </a>
-                      )}
-                    </article>
-                  ))}
-                </div>
+                {sections.length > 1 && (
+                  <nav className="section-jump" aria-label="Sections">
+                    {sections.map(({ section, items }) => (
+                      <a key={section.category} className="chip chip--paper" href={`#${sectionAnchor(section.category)}`}>
+                        {section.label} · {items.length}
+                      </a>
+                    ))}
+                  </nav>
+                )}
+                {sections.map(({ section, items, page, totalPages, pageItems }) => (
+                  <section key={section.category} id={sectionAnchor(section.category)} className="news-section">
+                    <header className="news-section__header">
+                      <h4>{section.label}</h4>
+                      <p className="muted">
+                        {section.description} {items.length} stor{items.length === 1 ? "y" : "ies"}.
+                      </p>
+                    </header>
+                    <div className="news-grid news-grid--masonry">
+                      {pageItems
+                        .reduce<{ story: NewsItem; size: StorySize }[]>((acc, story) => {
+                          const prevSize = acc.length ? acc[acc.length - 1].size : null;
+                          const size = adjustStorySize(story, prevSize);
+                          acc.push({ story, size });
+                          return acc;
+                        }, [])
+                        .map(({ story, size }) => (
+                          <StoryCard
+                            key={`${story.title}-${story.url ?? "story"}`}
+                            className={size}
+                            {...storyCardProps(story)}
+                          />
+                      ))}
+                    </div>
+                    {totalPages > 1 && (
+                      <div className="news-pagination">
+                        <button
+                          className="button button--ghost"
+                          type="button"
+                          onClick={() => setSectionPages((prev) => ({ ...prev, [section.category]: Math.max(1, page - 1) }))}
+                          disabled={page === 1}
+                        >
+                          Previous
+                        </button>
+                        <span className="news-pagination__label">
+                          {section.label}: page {page} of {totalPages}
+                        </span>
+                        <button
+                          className="button button--ghost"
+                          type="button"
+                          onClick={() =>
+                            setSectionPages((prev) => ({ ...prev, [section.category]: Math.min(totalPages, page + 1) }))
+                          }
+                          disabled={page === totalPages}
+                        >
+                          Next
+                        </button>
+                      </div>
+                    )}
+                  </section>
+                ))}
               </>
             )}
-            {totalPages > 1 && (
-              <div className="news-pagination">
-                <button
-                  className="button button--ghost"
-                  type="button"
-                  onClick={() => setPage((prev) => Math.max(1, prev - 1))}
-                  disabled={safePage === 1}
-                >
-                  Previous page
-                </button>
-                <span className="news-pagination__label">
-                  Page {safePage} of {totalPages}
-                </span>
-                <button
-                  className="button button--ghost"
-                  type="button"
-                  onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
-                  disabled={safePage === totalPages}
-                >
-                  Next page
-                </button>
-              </div>
-            )}
           </section>
         )}
 
@@ -1119,220 +2241,364 @@ export default function App() {
   );
 }
 
-function manusHeaders(manusConfig: ReturnType<typeof useManusConfig>) {
-  return {
-    "Content-Type": "application/json",
-    API_KEY: manusConfig.key,
-  };
-}
-
-async function runManusTask(
-  prompt: string,
-  manusConfig: ReturnType<typeof useManusConfig>,
-  appendLog: (message: string, meta?: string) => void,
-  onProgress?: (data: any) => void
-) {
-  const createUrl = `${manusConfig.base}${manusConfig.taskPaths.create}`;
-  const payload = {
-    prompt,
-    agentProfile: manusConfig.agentProfile,
-    taskMode: "agent",
-    hideInTaskList: true,
-  };
+type StoryCardProps = {
+  story: NewsItem;
+  saved: boolean;
+  read: boolean;
+  /** Not shown on the profile's previous visits. */
+  fresh: boolean;
+  onToggleSave: () => void;
+  /** Called when the reader opens the full article. */
+  onOpen: () => void;
+  rating: StoryRating | null;
+  onRate: (rating: StoryRating) => void;
+  /** Being read aloud right now. */
+  narrating: boolean;
+};
 
-  appendLog("Creating Manus task...", "manus");
-  const createRes = await fetch(createUrl, {
-    method: "POST",
-    headers: manusHeaders(manusConfig),
-    body: JSON.stringify(payload),
-  });
-  if (!createRes.ok) throw new Error(`Create task failed: HTTP ${createRes.status}`);
-  const createData = await createRes.json();
-  const taskId = createData.task_id || createData.taskId || createData.id;
-  if (!taskId) throw new Error("Create task succeeded but no task id returned");
-
-  appendLog(`Task created: ${taskId}. Polling for completion...`, "manus");
-  const start = Date.now();
-  while (Date.now() - start < manusConfig.maxPollMs) {
-    await wait(manusConfig.pollIntervalMs);
-    const url = `${manusConfig.base}${resolveTaskGetPath(manusConfig.taskPaths.get, taskId)}`;
-    const res = await fetch(url, {
-      method: "GET",
-      headers: manusHeaders(manusConfig),
-    });
-    if (!res.ok) {
-      appendLog(`Poll failed (HTTP ${res.status}); continuing`, "manus");
-      continue;
-    }
-    const data = await res.json();
-    if (onProgress) onProgress(data);
-    if (data.status && data.status !== "running" && data.status !== "pending") {
-      appendLog(`Task status: ${data.status}`, "manus");
-    }
-    if (data.status === "completed") {
-      appendLog("Task completed.", "manus");
-      return data;
-    }
-    if (data.status === "failed") {
-      const err = data.error || "Task failed";
-      throw new Error(err);
-    }
-  }
-  throw new Error("Manus task polling timed out");
+function StoryCard({ className = "", ...props }: StoryCardProps & { className?: string }) {
+  const { story, read, narrating, onOpen } = props;
+  return (
+    <article
+      className={`news-card ${className}${read ? " news-card--read" : ""}${narrating ? " news-card--narrating" : ""}`}
+    >
+      {story.mediaUrl && story.mediaType === "image" && (
+        <img className="news-media" src={story.mediaUrl} alt={story.title} />
+      )}
+      {story.mediaUrl && story.mediaType === "video" && (
+        <a className="news-link" href={story.mediaUrl} target="_blank" rel="noreferrer">
+          Watch the clip
+        </a>
+      )}
+      <StoryStatus {...props} />
+      <h6 className="news-card__title">{renderMarkdown(story.title)}</h6>
+      {story.tags?.length ? (
+        <div className="tag-row">
+          {story.tags.map((tag) => (
+            <span key={`${story.title}-${tag}`} className="chip chip--paper">
+              {tag}
+            </span>
+          ))}
+        </div>
+      ) : null}
+      <div className="news-card__summary markdown">{renderMarkdown(story.summary)}</div>
+      <AlsoReported story={story} />
+      {story.url && (
+        <a className="news-link" href={story.url} target="_blank" rel="noreferrer" onClick={onOpen}>
+          Read full news
+        </a>
+      )}
+      <StoryRatingControls {...props} />
+    </article>
+  );
 }
 
-function resolveTaskGetPath(template: string, taskId: string) {
-  return template.replace(":id", taskId);
+/** The top-ranked story, given the full width above the sections. */
+function LeadStory({ profile, ...props }: StoryCardProps & { profile: ReaderProfile }) {
+  const { story, read, narrating, onOpen } = props;
+  const source = story.source || (story.url ? sourceHost(story.url) : "");
+  const publishedAt = story.publishedAt ? Date.parse(story.publishedAt) : Number.NaN;
+  const byline = [source, Number.isNaN(publishedAt) ? "" : new Date(publishedAt).toLocaleDateString()].filter(Boolean);
+  return (
+    <article className={`lead-story${read ? " lead-story--read" : ""}${narrating ? " lead-story--narrating" : ""}`}>
+      <div className="lead-story__media">
+        {story.mediaUrl && story.mediaType === "image" ? (
+          <img src={story.mediaUrl} alt={story.title} />
+        ) : story.mediaUrl && story.mediaType === "video" ? (
+          <a className="news-link" href={story.mediaUrl} target="_blank" rel="noreferrer">
+            Watch the clip
+          </a>
+        ) : (
+          <span className="lead-story__placeholder">{story.category}</span>
+        )}
+      </div>
+      <div className="lead-story__body">
+        <p className="eyebrow">Lead story · {story.category}</p>
+        <StoryStatus {...props} />
+        <h2 className="lead-story__title">{renderInline(story.title)}</h2>
+        {byline.length > 0 && <p className="lead-story__byline">{byline.join(" · ")}</p>}
+        <div className="lead-story__summary markdown">{renderMarkdown(story.summary)}</div>
+        <p className="lead-story__why">
+          <strong>Why this matters to you:</strong> {explainRelevance(story, profile)}
+        </p>
+        {story.tags?.length ? (
+          <div className="tag-row">
+            {story.tags.map((tag) => (
+              <span key={tag} className="chip chip--paper">
+                {tag}
+              </span>
+            ))}
+          </div>
+        ) : null}
+        <AlsoReported story={story} />
+        {story.url && (
+          <a className="news-link" href={story.url} target="_blank" rel="noreferrer" onClick={onOpen}>
+            Read full news
+          </a>
+        )}
+        <StoryRatingControls {...props} />
+      </div>
+    </article>
+  );
 }
 
-function extractManusText(task: any) {
-  const outputs: any[] = task?.output || [];
-  const assistantOutputs = outputs.filter((o) => o?.role === "assistant");
-  const lastAssistant = assistantOutputs[assistantOutputs.length - 1];
-  const lastText = (lastAssistant?.content || [])
-    .map((c: any) => c?.text)
-    .filter(Boolean)
-    .join("\n\n");
-
-  if (lastText) return lastText;
-
-  return outputs
-    .filter((o) => o?.role !== "user")
-    .flatMap((o) => o?.content || [])
-    .map((c: any) => c?.text)
-    .filter(Boolean)
-    .join("\n\n");
+/** New and read markers plus the save toggle, shown at the top of every story. */
+function StoryStatus({ saved, read, fresh, onToggleSave }: StoryCardProps) {
+  return (
+    <div className="story-status">
+      {fresh && <span className="story-status__badge story-status__badge--new">New since your last visit</span>}
+      {read && <span className="story-status__badge">Read</span>}
+      <button
+        className={`chip chip--paper story-status__save ${saved ? "chip--active" : ""}`}
+        type="button"
+        aria-pressed={saved}
+        onClick={onToggleSave}
+      >
+        {saved ? "Saved" : "Save for later"}
+      </button>
+    </div>
+  );
 }
 
-async function fetchManusOutputFile(task: any, appendLog: (message: string, meta?: string) => void) {
-  const outputs: any[] = task?.output || [];
-  const fileUrl = outputs
-    .flatMap((o) => o?.content || [])
-    .map((c: any) => c?.fileUrl)
-    .find(Boolean);
+/** Clicking the active rating again takes it back. */
+function StoryRatingControls({ rating, onRate }: StoryCardProps) {
+  return (
+    <div className="story-rating" role="group" aria-label="Rate this story">
+      {RATING_CONTROLS.map((control) => (
+        <button
+          key={control.rating}
+          className={`chip chip--paper ${rating === control.rating ? "chip--active" : ""}`}
+          type="button"
+          title={control.title}
+          aria-label={control.title}
+          aria-pressed={rating === control.rating}
+          onClick={() => onRate(control.rating)}
+        >
+          {control.label}
+        </button>
+      ))}
+    </div>
+  );
+}
 
-  if (!fileUrl) return "";
+function AlsoReported({ story }: { story: NewsItem }) {
+  if (!story.sources || story.sources.length < 2) return null;
+  return (
+    <p className="news-card__sources">
+      Also reported by{" "}
+      {story.sources.slice(1).map((source, index) => (
+        <React.Fragment key={`${source.url ?? source.title}-${index}`}>
+          {index > 0 && ", "}
+          {source.url ? (
+            <a href={source.url} target="_blank" rel="noreferrer">
+              {source.source || sourceHost(source.url)}
+            </a>
+          ) : (
+            source.source || source.title
+          )}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+}
 
-  try {
-    const target = import.meta.env.DEV ? `/manus-file?url=${encodeURIComponent(fileUrl)}` : fileUrl;
-    const res = await fetch(target);
-    if (!res.ok) {
-      appendLog(`Failed to fetch Manus file (${res.status})`, "manus");
-      return "";
-    }
-    const text = await res.text();
-    return text;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown file fetch error";
-    appendLog(`Manus file fetch error (${message})`, "manus");
-    return "";
-  }
+function formatSignal(signal: InterestSignal) {
+  return `${signal.label} (${signal.kind}, ${signal.weight > 0 ? "+" : ""}${signal.weight})`;
 }
 
-function parseNewsText(text: string): { summary: string; items: NewsItem[] } {
-  if (!text) return { summary: "", items: [] };
-  const lines = text
-    .split("\n")
-    .map((line) => line.trim())
-    .filter(Boolean);
-
-  const items: NewsItem[] = [];
-  const summaryLines: string[] = [];
-  let sawBullets = false;
-
-  for (const line of lines) {
-    if (/^[-*]\s+/.test(line)) {
-      sawBullets = true;
-      const item = parseNewsBullet(line);
-      if (item) items.push(item);
-      continue;
-    }
-    if (!sawBullets && !line.startsWith("#")) {
-      summaryLines.push(line);
-    }
+function describeSpeech({ output, input }: SpeechSetup) {
+  if (output.id === "text" && input.id === "text") {
+    return "Text-only mode: voice is not available here, so prompts stay on screen and answers are typed.";
   }
+  if (input.id === "text") return `Prompts are read with ${output.label}. Voice input is not available, so type your answers.`;
+  if (output.id === "text") return `Prompts are shown, not read aloud. Answers are heard with ${input.label}.`;
+  return output.id === input.id
+    ? `Voice: ${output.label}.`
+    : `Prompts are read with ${output.label}; answers are heard with ${input.label}.`;
+}
 
-  const summary = summaryLines.join(" ").trim();
-  const trimmedItems = items.slice(0, 18);
-  if (!trimmedItems.length && summary) {
-    const title = summary.split(".")[0]?.trim() || "Top story";
-    trimmedItems.push({ title, summary, category: "Other", tags: [] });
-  }
-  return { summary, items: trimmedItems };
+function storiesWithTag(items: NewsItem[], tag: string | null) {
+  if (!tag) return items;
+  return items.filter((story) => story.tags?.some((candidate) => candidate.toLowerCase() === tag.toLowerCase()));
 }
 
-function parseNewsBullet(line: string): NewsItem | null {
-  const cleaned = line.replace(/^[-*]\s+/, "").trim();
-  const markdownLink = cleaned.match(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/);
-  if (markdownLink) {
-    const title = markdownLink[1];
-    const url = markdownLink[2];
-    const summary = cleaned
-      .replace(markdownLink[0], "")
-      .replace(/^[-–—:]+\s*/, "")
-      .trim();
-    const parsed = parseCategory(summary);
-    return {
-      title,
-      summary: parsed.summary || "Details in the linked source.",
-      url,
-      category: parsed.category,
-      tags: parsed.tags,
-    };
+type ReadAloudStatus = "idle" | "loading" | "playing" | "paused";
+
+/**
+ * "Listen to today's paper": reads the chapters (front summary, then each story) one after another,
+ * with play/pause, skip and a chapter list. ElevenLabs audio goes through /eleven-tts and is cached
+ * per edition; any other voice speaks each chapter through its speech provider, and resumes a
+ * paused chapter from its start.
+ */
+function ReadAloudPlayer({
+  voice,
+  editionId,
+  chapters,
+  onStoryChange,
+}: {
+  voice: SpeechProvider;
+  editionId: string | null;
+  chapters: Chapter[];
+  /** Called with the storyKey being narrated, or null between stories and when stopped. */
+  onStoryChange: (key: string | null) => void;
+}) {
+  const [current, setCurrent] = React.useState<number | null>(null);
+  const [status, setStatus] = React.useState<ReadAloudStatus>("idle");
+  const [error, setError] = React.useState<string | null>(null);
+  const audioRef = React.useRef<HTMLAudioElement | null>(null);
+  const urlRef = React.useRef<string | null>(null);
+  const loadRef = React.useRef<AbortController | null>(null);
+  // The next chapter, requested while the current one plays so stories follow without a gap.
+  const prefetchRef = React.useRef<{ id: string; audio: Promise<Blob> } | null>(null);
+
+  const stop = React.useCallback(() => {
+    loadRef.current?.abort();
+    audioRef.current?.pause();
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = null;
+    prefetchRef.current = null;
+    setCurrent(null);
+    setStatus("idle");
+    onStoryChange(null);
+  }, [onStoryChange]);
+
+  // Another edition, a changed story list or another voice starts again from the top.
+  React.useEffect(() => stop, [editionId, chapters, voice, stop]);
+  const recorded = voice.id === "elevenlabs";
+
+  async function playChapter(index: number) {
+    const chapter = chapters[index];
+    if (!chapter) {
+      stop();
+      return;
+    }
+    loadRef.current?.abort();
+    const controller = new AbortController();
+    loadRef.current = controller;
+    audioRef.current?.pause();
+    setError(null);
+    setCurrent(index);
+    setStatus("loading");
+    onStoryChange(chapter.storyKey ?? null);
+    if (!recorded) {
+      setStatus("playing");
+      await voice.speak(chapter.text, controller.signal);
+      if (!controller.signal.aborted) void playChapter(index + 1);
+      return;
+    }
+    try {
+      const prefetched = prefetchRef.current?.id === chapter.id ? prefetchRef.current.audio : null;
+      const blob = await (prefetched ?? loadChapterAudio(editionId, chapter, controller.signal));
+      if (controller.signal.aborted) return;
+      if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+      urlRef.current = URL.createObjectURL(blob);
+      const audio = (audioRef.current ??= new Audio());
+      audio.src = urlRef.current;
+      audio.onended = () => void playChapter(index + 1);
+      // Paused from outside the player, e.g. by a headset button.
+      audio.onpause = () => setStatus((prev) => (prev === "playing" ? "paused" : prev));
+      await audio.play();
+      setStatus("playing");
+      const next = chapters[index + 1];
+      if (next) {
+        const audioPromise = loadChapterAudio(editionId, next);
+        audioPromise.catch(() => undefined);
+        prefetchRef.current = { id: next.id, audio: audioPromise };
+      }
+    } catch (caught) {
+      if (controller.signal.aborted) return;
+      stop();
+      setError(caught instanceof Error ? caught.message : "Narration failed.");
+    }
   }
 
-  const urlMatch = cleaned.match(/https?:\/\/\S+/);
-  if (urlMatch) {
-    const url = urlMatch[0].replace(/[),.]+$/, "");
-    const withoutUrl = cleaned.replace(urlMatch[0], "").trim();
-    const parts = withoutUrl.split(" - ");
-    const title = parts[0] || "Source link";
-    const summary = parts.slice(1).join(" - ").trim() || "Details in the linked source.";
-    const parsed = parseCategory(summary);
-    return {
-      title,
-      summary: parsed.summary,
-      url,
-      category: parsed.category,
-      tags: parsed.tags,
-    };
+  function togglePlayback() {
+    if (status === "playing") {
+      if (recorded) audioRef.current?.pause();
+      else loadRef.current?.abort();
+      setStatus("paused");
+    } else if (status === "paused") {
+      if (!recorded) {
+        void playChapter(current ?? 0);
+        return;
+      }
+      void audioRef.current?.play();
+      setStatus("playing");
+    } else {
+      void playChapter(current ?? 0);
+    }
   }
 
-  if (!cleaned) return null;
-  const parsed = parseCategory("");
-  return {
-    title: cleaned,
-    summary: "",
-    category: parsed.category,
-    tags: parsed.tags,
-  };
-}
-
-function buildNewsPrompt(profile: ReaderProfile, manusConfig: ReturnType<typeof useManusConfig>) {
-  const locationLine = profile.location ? `Location: ${profile.location}.` : "Location: Global.";
-  return `${manusConfig.systemPrompt}\n\nYou are preparing a newspaper platform daily briefing. Search fast and shallow, prioritizing speed over depth.\n${locationLine}\nUser interests: ${profile.topics}.\n\nCoverage requirements:\n- Local news (based on location)\n- International news\n- User interest topics\n- Social drama and trending chatter (especially from social media)\n- Only include items from the past 7 days\n- Order items from best match to least relevant\n\nReturn:\n1) A 2-3 sentence front-page summary.\n2) 12-18 bullet items formatted as "- [Title](URL) - category label (Local/International/Interest/Social) + one-sentence summary."\n3) Optional tags: add bracketed tags after the category (example: "Local [Technology, Policy] - ...").\nPrefer credible, recent sources with direct links so readers can open them.`;
+  const active = current === null ? null : chapters[current];
+  return (
+    <section className="read-aloud" aria-label="Read aloud">
+      <div className="read-aloud__controls">
+        <button
+          className="button button--paper"
+          type="button"
+          onClick={togglePlayback}
+          disabled={!chapters.length || status === "loading"}
+        >
+          {status === "playing" ? "Pause" : status === "paused" ? "Resume" : "Listen to today's paper"}
+        </button>
+        <button
+          className="chip chip--paper"
+          type="button"
+          onClick={() => current !== null && playChapter(current - 1)}
+          disabled={!current}
+        >
+          Previous
+        </button>
+        <button
+          className="chip chip--paper"
+          type="button"
+          onClick={() => current !== null && playChapter(current + 1)}
+          disabled={current === null || current >= chapters.length - 1}
+        >
+          Skip
+        </button>
+        <button className="chip chip--paper" type="button" onClick={stop} disabled={current === null}>
+          Stop
+        </button>
+        <span className="read-aloud__now" aria-live="polite">
+          {active
+            ? `${status === "loading" ? "Preparing" : "Now reading"} ${(current ?? 0) + 1} of ${chapters.length}: ${active.label}`
+            : `${chapters.length} chapters: the front summary and every story.`}
+        </span>
+      </div>
+      {error && <p className="read-aloud__error">{error}</p>}
+      {current !== null && (
+        <ol className="read-aloud__chapters">
+          {chapters.map((chapter, index) => (
+            <li key={chapter.id}>
+              <button
+                type="button"
+                className={`read-aloud__chapter${index === current ? " read-aloud__chapter--active" : ""}`}
+                aria-current={index === current ? "true" : undefined}
+                onClick={() => playChapter(index)}
+              >
+                {chapter.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
 }
 
-function buildDemoBrief(profile: ReaderProfile): { summary: string; items: NewsItem[] } {
-  const topics = profile.topics
-    .split(",")
-    .map((topic) => topic.trim())
-    .filter(Boolean);
-  const summary = `Tracking ${topics.slice(0, 3).join(", ") || "your topics"} with a social-first lens. Local context: ${
-    profile.location || "global"
-  }.`;
-  const items: NewsItem[] = topics.slice(0, 6).map((topic, index) => ({
-    title: `${topic} watch`,
-    summary: `Early chatter highlights emerging themes and differing opinions in ${topic}.`,
-    url: index === 0 ? "https://news.ycombinator.com" : undefined,
-    category: "Interest",
-    tags: [topic],
-  }));
-  return { summary, items };
+function renderHighlight(text: string, terms: string[]) {
+  return highlight(text, terms).map((part, index) =>
+    part.match ? <mark key={index}>{part.text}</mark> : <React.Fragment key={index}>{part.text}</React.Fragment>
+  );
 }
 
-function wait(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sourceHost(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
 }
 
 function renderMarkdown(text: string) {
@@ -1386,105 +2652,6 @@ function renderInline(text: string) {
     });
 }
 
-function runDemoTrace(appendLog: (message: string, meta?: string) => void) {
-  const steps = [
-    { delay: 0, meta: "demo", message: "Routing to demo newsroom pipeline." },
-    { delay: 400, meta: "agent", message: "Drafting fast search queries for local, international, and interest topics." },
-    { delay: 800, meta: "web", message: "Scanning fast sources (last 7 days) for headlines." },
-    { delay: 1200, meta: "social", message: "Sampling trending social chatter for drama and sentiment." },
-    { delay: 1600, meta: "editor", message: "Ranking stories by relevance and freshness." },
-    { delay: 2000, meta: "layout", message: "Composing front page and briefs." },
-  ];
-  steps.forEach((step) => {
-    window.setTimeout(() => appendLog(step.message, step.meta), step.delay);
-  });
-}
-
-async function generateAiMedia(
-  items: NewsItem[],
-  profile: ReaderProfile,
-  appendLog: (message: string, meta?: string) => void
-) {
-  if (!items.length) return items;
-  appendLog("Generating AI images for stories...", "media");
-  const next = [...items];
-  let abortRemaining = false;
-
-  for (let index = 0; index < next.length; index += 1) {
-    if (abortRemaining) break;
-    const item = next[index];
-    try {
-      const prompt = buildImagePrompt(item, profile);
-      const result = await requestAiImage(prompt);
-      if (result.error) {
-        if (result.error.includes("Missing OPENAI_API_KEY")) {
-          appendLog("Missing OPENAI_API_KEY; skipping AI images.", "media");
-          abortRemaining = true;
-        } else {
-          appendLog(`AI image failed for "${item.title}" (${result.error})`, "media");
-        }
-        continue;
-      }
-      if (!result.url) continue;
-      next[index] = {
-        ...item,
-        mediaUrl: result.url,
-        mediaType: "image",
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown image error";
-      appendLog(`AI image failed for "${item.title}" (${message})`, "media");
-    }
-  }
-
-  return next;
-}
-
-async function requestAiImage(prompt: string): Promise<{ url?: string; error?: string }> {
-  const response = await fetch("/ai-image", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ prompt }),
-  });
-  const data = await response.json().catch(() => ({}));
-  if (!response.ok) {
-    return { error: data?.error || "AI image request failed" };
-  }
-  return { url: data?.url };
-}
-
-function buildImagePrompt(item: NewsItem, profile: ReaderProfile) {
-  const tags = item.tags?.length ? `Tags: ${item.tags.join(", ")}.` : "";
-  const location = profile.location ? `Location: ${profile.location}.` : "Location: Global.";
-  return `Create a photojournalistic newspaper illustration. ${location} Category: ${item.category}. ${tags}\nTitle: ${item.title}.\nSummary: ${item.summary}\nStyle: cinematic, realistic, no text, no logos.`;
-}
-
-function parseCategory(text: string): { category: NewsCategory; summary: string; tags: string[] } {
-  if (!text) return { category: "Other", summary: text, tags: [] };
-  const tagMatch = text.match(/\[(.+?)\]/);
-  const tags = tagMatch
-    ? tagMatch[1]
-        .split(",")
-        .map((tag) => tag.trim())
-        .filter(Boolean)
-    : [];
-  const cleaned = tagMatch ? text.replace(tagMatch[0], "").trim() : text;
-  const match = cleaned.match(/^(Local|International|Interest|Social)\b[\s:|-]*(.*)$/i);
-  if (!match) return { category: "Other", summary: cleaned, tags };
-  const category = normalizeCategory(match[1]);
-  const summary = match[2]?.trim() || "";
-  return { category, summary, tags };
-}
-
-function normalizeCategory(raw: string): NewsCategory {
-  const normalized = raw.toLowerCase();
-  if (normalized.startsWith("local")) return "Local";
-  if (normalized.startsWith("international")) return "International";
-  if (normalized.startsWith("interest")) return "Interest";
-  if (normalized.startsWith("social")) return "Social";
-  return "Other";
-}
-
 type StorySize = "news-card--headline" | "news-card--featured" | "news-card--standard" | "news-card--compact";
 
 function getStorySize(story?: NewsItem): StorySize {
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { BRIEF_SCHEMA_VERSION, validateBrief } from "./briefSchema";
+
+const story = { title: "Port expansion approved", summary: "Work starts in May.", category: "Local" };
+
+describe("validateBrief", () => {
+  it("accepts a schema document and trims its fields", () => {
+    const { brief, errors, dropped } = validateBrief({
+      schemaVersion: BRIEF_SCHEMA_VERSION,
+      summary: "  A quiet day.  ",
+      items: [{ ...story, category: "local", tags: [" Transport "], url: "https://example.com/port" }],
+    });
+    expect(errors).toEqual([]);
+    expect(dropped).toEqual([]);
+    expect(brief).toEqual({
+      summary: "A quiet day.",
+      items: [{ ...story, tags: ["Transport"], url: "https://example.com/port" }],
+    });
+  });
+
+  it("drops invalid items and keeps the rest", () => {
+    const { brief, dropped } = validateBrief({
+      schemaVersion: BRIEF_SCHEMA_VERSION,
+      summary: "Summary.",
+      items: [
+        story,
+        { ...story, title: " " },
+        { ...story, category: "Weather" },
+        { ...story, url: "javascript:alert(1)" },
+        { ...story, tags: "Transport" },
+        { ...story, publishedAt: "last week" },
+        "not a story",
+      ],
+    });
+    expect(brief?.items).toHaveLength(1);
+    expect(dropped.map((problem) => problem.split(":")[0])).toEqual([
+      "items[1]",
+      "items[2]",
+      "items[3]",
+      "items[4]",
+      "items[5]",
+      "items[6]",
+    ]);
+  });
+
+  it("rejects a document with no valid items", () => {
+    const { brief, errors } = validateBrief({ schemaVersion: BRIEF_SCHEMA_VERSION, summary: "Summary.", items: [{}] });
+    expect(brief).toBeNull();
+    expect(errors[0]).toBe("items has no valid entries");
+  });
+
+  it("rejects the wrong version, a missing summary and missing items", () => {
+    expect(validateBrief({ schemaVersion: "brief.v0" }).errors).toHaveLength(3);
+    expect(validateBrief([]).errors).toEqual(["document is not an object"]);
+  });
+});
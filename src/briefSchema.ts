@@ -0,0 +1,94 @@
+import { PLACEHOLDER_SUMMARY } from "./dedupe";
+import { MAX_STORY_COUNT } from "./preferences";
+import type { NewsBrief, NewsCategory, NewsItem } from "./types";
+
+export const BRIEF_SCHEMA_VERSION = "brief.v1";
+
+const SCHEMA_CATEGORIES: NewsCategory[] = ["Local", "International", "Interest", "Social"];
+
+/** Shape the model is asked to return; kept next to the validator so the two never drift. */
+export const BRIEF_SCHEMA_EXAMPLE = {
+  schemaVersion: BRIEF_SCHEMA_VERSION,
+  summary: "2-3 sentence front-page summary.",
+  items: [
+    {
+      title: "Headline",
+      summary: "One-sentence summary.",
+      category: "Local | International | Interest | Social",
+      tags: ["Technology", "Policy"],
+      source: "Publication or community name",
+      publishedAt: "YYYY-MM-DD",
+      url: "https://example.com/story",
+    },
+  ],
+};
+
+export type BriefValidation = {
+  /** Null when the document as a whole is unusable; see errors. */
+  brief: NewsBrief | null;
+  errors: string[];
+  /** Per-item problems; those items are left out of brief. */
+  dropped: string[];
+};
+
+export function validateBrief(value: unknown): BriefValidation {
+  if (!isRecord(value)) return { brief: null, errors: ["document is not an object"], dropped: [] };
+  const errors: string[] = [];
+  if (value.schemaVersion !== BRIEF_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be "${BRIEF_SCHEMA_VERSION}" (got ${JSON.stringify(value.schemaVersion)})`);
+  }
+  if (typeof value.summary !== "string" || !value.summary.trim()) {
+    errors.push("summary must be a non-empty string");
+  }
+  if (!Array.isArray(value.items)) {
+    errors.push("items must be an array");
+  }
+  if (errors.length) return { brief: null, errors, dropped: [] };
+
+  const items: NewsItem[] = [];
+  const dropped: string[] = [];
+  (value.items as unknown[]).slice(0, MAX_STORY_COUNT).forEach((raw, index) => {
+    const result = validateItem(raw);
+    if (typeof result === "string") dropped.push(`items[${index}]: ${result}`);
+    else items.push(result);
+  });
+  if (!items.length) {
+    return { brief: null, errors: ["items has no valid entries", ...dropped], dropped };
+  }
+  return { brief: { summary: (value.summary as string).trim(), items }, errors: [], dropped };
+}
+
+function validateItem(raw: unknown): NewsItem | string {
+  if (!isRecord(raw)) return "not an object";
+  const title = typeof raw.title === "string" ? raw.title.trim() : "";
+  if (!title) return "title must be a non-empty string";
+  if (typeof raw.summary !== "string") return "summary must be a string";
+  const category = SCHEMA_CATEGORIES.find(
+    (candidate) => typeof raw.category === "string" && candidate.toLowerCase() === raw.category.trim().toLowerCase()
+  );
+  if (!category) return `category must be one of ${SCHEMA_CATEGORIES.join("/")}`;
+  if (raw.url !== undefined && raw.url !== null && (typeof raw.url !== "string" || !/^https?:\/\//i.test(raw.url))) {
+    return "url must be an http(s) URL";
+  }
+  if (raw.tags !== undefined && (!Array.isArray(raw.tags) || raw.tags.some((tag) => typeof tag !== "string"))) {
+    return "tags must be an array of strings";
+  }
+  if (raw.publishedAt !== undefined && raw.publishedAt !== null) {
+    if (typeof raw.publishedAt !== "string" || Number.isNaN(Date.parse(raw.publishedAt))) {
+      return "publishedAt must be an ISO date";
+    }
+  }
+  return {
+    title,
+    summary: raw.summary.trim() || PLACEHOLDER_SUMMARY,
+    url: typeof raw.url === "string" ? raw.url : undefined,
+    source: typeof raw.source === "string" && raw.source.trim() ? raw.source.trim() : undefined,
+    publishedAt: typeof raw.publishedAt === "string" ? raw.publishedAt : undefined,
+    category,
+    tags: Array.isArray(raw.tags) ? (raw.tags as string[]).map((tag) => tag.trim()).filter(Boolean) : [],
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
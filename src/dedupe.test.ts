@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeUrl, dedupeStories, PLACEHOLDER_SUMMARY, storyKey } from "./dedupe";
+import { parseNewsText } from "./news";
+import type { NewsItem } from "./types";
+
+function story(title: string, fields: Partial<NewsItem> = {}): NewsItem {
+  return { title, summary: "", category: "Local", tags: [], ...fields };
+}
+
+describe("canonicalizeUrl", () => {
+  it("drops tracking params, fragments, mobile hosts and AMP paths", () => {
+    expect(canonicalizeUrl("http://www.Example.com/news/story/amp/?utm_source=x&id=7&ref=home#top")).toBe(
+      "https://example.com/news/story?id=7"
+    );
+    expect(canonicalizeUrl("https://m.example.com/news/story/")).toBe("https://example.com/news/story");
+  });
+
+  it("sorts the params that are kept", () => {
+    expect(canonicalizeUrl("https://example.com/a?b=2&a=1")).toBe(canonicalizeUrl("https://example.com/a?a=1&b=2"));
+  });
+
+  it("leaves what is not an http(s) URL as it is", () => {
+    expect(canonicalizeUrl(" not a url ")).toBe("not a url");
+    expect(canonicalizeUrl("mailto:desk@example.com")).toBe("mailto:desk@example.com");
+    expect(canonicalizeUrl(undefined)).toBeUndefined();
+  });
+
+  it("keys stories without a link by title", () => {
+    expect(storyKey(story("  Rates Held "))).toBe("title:rates held");
+  });
+});
+
+describe("dedupeStories", () => {
+  it("merges the same article shared under different URLs and keeps the original links", () => {
+    const { items, duplicates } = dedupeStories([
+      story("Port expansion approved", { url: "http://m.example.com/port?ref=feed", source: "Example" }),
+      story("Council backs harbour plan", { url: "https://example.com/port", source: "Wire" }),
+    ]);
+    expect(duplicates).toBe(1);
+    expect(items).toHaveLength(1);
+    expect(items[0].url).toBe("http://m.example.com/port?ref=feed");
+    expect(items[0].sources?.map((source) => source.url)).toEqual(["http://m.example.com/port?ref=feed"]);
+  });
+
+  it("merges similar titles and collects every source", () => {
+    const { items } = dedupeStories([
+      story("Central bank holds interest rates steady", { url: "https://a.example/rates", tags: ["Economy"] }),
+      story("Central bank holds interest rates steady again", { url: "https://b.example/rates", tags: ["economy", "Banks"] }),
+    ]);
+    expect(items).toHaveLength(1);
+    expect(items[0].sources?.map((source) => source.url)).toEqual(["https://a.example/rates", "https://b.example/rates"]);
+    expect(items[0].tags).toEqual(["economy", "Banks"]);
+  });
+
+  it("merges long summaries that tell the same story in the same category", () => {
+    const summary = "The city council approved a plan to widen the northern harbour and add two container berths.";
+    const { items } = dedupeStories([story("Harbour vote", { summary }), story("Berths for the north", { summary })]);
+    expect(items).toHaveLength(1);
+  });
+
+  it("does not merge stories on placeholder or short summaries", () => {
+    const { items } = dedupeStories([
+      story("Port expansion approved", { summary: PLACEHOLDER_SUMMARY }),
+      story("Rates held", { summary: PLACEHOLDER_SUMMARY }),
+      story("Museum reopens", { summary: "Open today." }),
+      story("Marathon route set", { summary: "Open today." }),
+    ]);
+    expect(items).toHaveLength(4);
+  });
+
+  it("keeps unrelated markdown stories apart", () => {
+    const brief = parseNewsText(
+      [
+        "Morning brief.",
+        "- [Port expansion approved](https://a.example/port)",
+        "- [Rates held](https://b.example/rates)",
+        "- [Museum reopens](https://c.example/museum)",
+      ].join("\n")
+    );
+    expect(dedupeStories(brief.items).items).toHaveLength(3);
+  });
+});
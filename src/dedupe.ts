@@ -0,0 +1,151 @@
+import type { NewsItem, NewsSource } from "./types";
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src|ref_url|cmpid|spm|si)$/i;
+const TITLE_SIMILARITY = 0.6;
+const SUMMARY_SIMILARITY = 0.85;
+// Shorter summaries say too little to tell two stories apart.
+const MIN_SUMMARY_TOKENS = 6;
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "with",
+]);
+
+/** Summary given to a story that came without one; never compared when looking for duplicates. */
+export const PLACEHOLDER_SUMMARY = "Details in the linked source.";
+
+/** Normalizes a story URL so the same article shared with tracking params or mobile hosts compares equal. */
+export function canonicalizeUrl(raw?: string) {
+  if (!raw) return undefined;
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return raw.trim();
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return raw.trim();
+  url.protocol = "https:";
+  url.hostname = url.hostname.toLowerCase().replace(/^(www|m|mobile|amp)\./, "");
+  url.hash = "";
+  const kept = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(kept).toString();
+  url.pathname = url.pathname.replace(/\/amp\/?$/, "/").replace(/\/+$/, "") || "/";
+  return url.toString().replace(/\/$/, "");
+}
+
+/** Identifies a story across editions: its canonical URL, or its title when it has no link. */
+export function storyKey(story: NewsItem) {
+  return canonicalizeUrl(story.url) || `title:${story.title.trim().toLowerCase()}`;
+}
+
+/**
+ * Merges stories that point at the same canonical URL or read as the same story
+ * (similar titles, or similar summaries in the same category). The first, best-ranked
+ * item wins and collects every merged item as a source. Canonical URLs are only compared;
+ * items and sources keep the links as given, which some sites need to resolve.
+ */
+export function dedupeStories(items: NewsItem[]) {
+  const merged: { item: NewsItem; titleTokens: Set<string>; summaryTokens: Set<string>; urls: Set<string> }[] = [];
+  let duplicates = 0;
+
+  for (const item of items) {
+    const url = canonicalizeUrl(item.url);
+    const titleTokens = tokenize(item.title);
+    const summaryTokens = summaryTokensOf(item);
+    const match = merged.find(
+      (entry) =>
+        (url && entry.urls.has(url)) ||
+        similarity(entry.titleTokens, titleTokens) >= TITLE_SIMILARITY ||
+        (entry.item.category === item.category &&
+          Math.min(entry.summaryTokens.size, summaryTokens.size) >= MIN_SUMMARY_TOKENS &&
+          similarity(entry.summaryTokens, summaryTokens) >= SUMMARY_SIMILARITY)
+    );
+    if (!match) {
+      merged.push({
+        item: { ...item, sources: item.sources ?? [toSource(item)] },
+        titleTokens,
+        summaryTokens,
+        urls: new Set(url ? [url] : []),
+      });
+      continue;
+    }
+    duplicates += 1;
+    if (url) match.urls.add(url);
+    match.item = mergeStory(match.item, item);
+  }
+
+  return { items: merged.map((entry) => entry.item), duplicates };
+}
+
+function mergeStory(primary: NewsItem, duplicate: NewsItem): NewsItem {
+  const sources = [...(primary.sources ?? [toSource(primary)])];
+  for (const source of duplicate.sources ?? [toSource(duplicate)]) {
+    const exists = sources.some(
+      (existing) =>
+        (source.url && canonicalizeUrl(existing.url) === canonicalizeUrl(source.url)) ||
+        (!source.url && existing.title === source.title)
+    );
+    if (!exists) sources.push(source);
+  }
+  const tags = Array.from(
+    new Map([...(primary.tags ?? []), ...(duplicate.tags ?? [])].map((tag) => [tag.toLowerCase(), tag])).values()
+  );
+  return {
+    ...primary,
+    url: primary.url ?? duplicate.url,
+    source: primary.source ?? duplicate.source,
+    publishedAt: primary.publishedAt ?? duplicate.publishedAt,
+    summary: primary.summary.length >= duplicate.summary.length ? primary.summary : duplicate.summary,
+    mediaUrl: primary.mediaUrl ?? duplicate.mediaUrl,
+    mediaType: primary.mediaType ?? duplicate.mediaType,
+    tags,
+    sources,
+  };
+}
+
+function toSource(item: NewsItem): NewsSource {
+  return { title: item.title, url: item.url, source: item.source };
+}
+
+function summaryTokensOf(item: NewsItem) {
+  const summary = item.summary.trim();
+  return summary === PLACEHOLDER_SUMMARY ? new Set<string>() : tokenize(summary);
+}
+
+function tokenize(text: string) {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+}
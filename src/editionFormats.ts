@@ -0,0 +1,191 @@
+import { groupSections } from "./sections";
+import type { Edition, NewsItem, NewsSource } from "./types";
+import { createZip } from "./zip";
+
+export type FeedOptions = {
+  /** Absolute URL the feed is served from. */
+  feedUrl: string;
+  /** Absolute URL of the app, linked from every entry. */
+  siteUrl: string;
+  title?: string;
+};
+
+export function editionTitle(edition: Edition) {
+  return `${edition.profile.location || "Global"} briefing, ${new Date(edition.createdAt).toLocaleDateString()}`;
+}
+
+/** Lead story first, then the rest of the stories by section, the same order as the front page. */
+export function editionLayout(edition: Edition) {
+  const [lead, ...rest] = edition.items;
+  return { lead, sections: groupSections(rest) };
+}
+
+export function editionToMarkdown(edition: Edition) {
+  const { lead, sections } = editionLayout(edition);
+  const story = (item: NewsItem, level: string) =>
+    [
+      `${level} ${item.url ? `[${item.title}](${item.url})` : item.title}`,
+      [item.source, item.publishedAt].filter(Boolean).join(" · "),
+      item.summary,
+      item.tags?.length ? `Tags: ${item.tags.join(", ")}` : "",
+      item.sources && item.sources.length > 1
+        ? `Also reported by ${item.sources.slice(1).map(markdownSource).join(", ")}`
+        : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  return [
+    `# ${editionTitle(edition)}`,
+    `Topics: ${edition.profile.topics} · ${new Date(edition.createdAt).toLocaleString()}`,
+    edition.summary,
+    ...(lead ? [`## Lead story`, story(lead, "###")] : []),
+    ...sections.flatMap(({ section, items }) => [`## ${section.label}`, ...items.map((item) => story(item, "###"))]),
+  ]
+    .filter(Boolean)
+    .join("\n\n")
+    .concat("\n");
+}
+
+function markdownSource(source: NewsSource) {
+  const label = source.source || source.title;
+  return source.url ? `[${label}](${source.url})` : label;
+}
+
+/** The edition as an XHTML fragment, for EPUB chapters and feed entries. */
+export function editionToHtml(edition: Edition) {
+  const { lead, sections } = editionLayout(edition);
+  const story = (item: NewsItem, heading: "h2" | "h3") => {
+    const title = item.url ? `<a href="${escapeXml(item.url)}">${escapeXml(item.title)}</a>` : escapeXml(item.title);
+    const byline = [item.source, item.publishedAt].filter(Boolean).join(" · ");
+    return [
+      `<article>`,
+      `<${heading}>${title}</${heading}>`,
+      byline ? `<p class="byline">${escapeXml(byline)}</p>` : "",
+      `<p>${escapeXml(item.summary)}</p>`,
+      item.tags?.length ? `<p class="tags">${escapeXml(item.tags.join(" · "))}</p>` : "",
+      `</article>`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  };
+  return [
+    `<p class="summary">${escapeXml(edition.summary)}</p>`,
+    ...(lead ? [`<section class="lead">`, story(lead, "h2"), `</section>`] : []),
+    ...sections.flatMap(({ section, items }) => [
+      `<section>`,
+      `<h2 class="section">${escapeXml(section.label)}</h2>`,
+      ...items.map((item) => story(item, "h3")),
+      `</section>`,
+    ]),
+  ].join("\n");
+}
+
+/** An Atom feed with one entry per edition, newest first, each carrying the full edition as HTML. */
+export function editionsToAtom(editions: Edition[], options: FeedOptions) {
+  const sorted = [...editions].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const updated = sorted[0]?.createdAt ?? new Date(0).toISOString();
+  const entries = sorted.map((edition) =>
+    [
+      "  <entry>",
+      `    <id>urn:edition:${escapeXml(edition.id)}</id>`,
+      `    <title>${escapeXml(editionTitle(edition))}</title>`,
+      `    <updated>${edition.createdAt}</updated>`,
+      `    <link rel="alternate" href="${escapeXml(options.siteUrl)}"/>`,
+      `    <summary>${escapeXml(edition.summary)}</summary>`,
+      `    <content type="html">${escapeXml(editionToHtml(edition))}</content>`,
+      "  </entry>",
+    ].join("\n")
+  );
+  return [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <id>${escapeXml(options.feedUrl)}</id>`,
+    `  <title>${escapeXml(options.title ?? "Daily briefing")}</title>`,
+    `  <updated>${updated}</updated>`,
+    `  <link rel="self" href="${escapeXml(options.feedUrl)}"/>`,
+    `  <link rel="alternate" href="${escapeXml(options.siteUrl)}"/>`,
+    `  <author><name>Manus Web Agent</name></author>`,
+    ...entries,
+    `</feed>`,
+    "",
+  ].join("\n");
+}
+
+/** A single-chapter EPUB 3 book. Images are left out, since e-readers will not fetch remote files. */
+export function editionToEpub(edition: Edition) {
+  const title = escapeXml(editionTitle(edition));
+  // The language preference is free text ("Malay"), not a language tag, so it is only reported as undetermined.
+  const language = edition.profile.preferences?.language ? "und" : "en";
+  const modified = `${new Date().toISOString().slice(0, 19)}Z`;
+  const page = (body: string, extraNamespace = "") =>
+    [
+      `<?xml version="1.0" encoding="utf-8"?>`,
+      `<!DOCTYPE html>`,
+      `<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="${language}">`,
+      `<head><title>${title}</title><link rel="stylesheet" type="text/css" href="style.css"/></head>`,
+      `<body>`,
+      body,
+      `</body>`,
+      `</html>`,
+    ].join("\n");
+  return createZip([
+    // Must come first and be stored uncompressed.
+    { name: "mimetype", data: "application/epub+zip" },
+    {
+      name: "META-INF/container.xml",
+      data: [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">`,
+        `  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>`,
+        `</container>`,
+      ].join("\n"),
+    },
+    {
+      name: "OEBPS/content.opf",
+      data: [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="edition-id">`,
+        `  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+        `    <dc:identifier id="edition-id">urn:edition:${escapeXml(edition.id)}</dc:identifier>`,
+        `    <dc:title>${title}</dc:title>`,
+        `    <dc:language>${language}</dc:language>`,
+        `    <dc:date>${edition.createdAt}</dc:date>`,
+        `    <meta property="dcterms:modified">${modified}</meta>`,
+        `  </metadata>`,
+        `  <manifest>`,
+        `    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+        `    <item id="edition" href="edition.xhtml" media-type="application/xhtml+xml"/>`,
+        `    <item id="style" href="style.css" media-type="text/css"/>`,
+        `  </manifest>`,
+        `  <spine><itemref idref="edition"/></spine>`,
+        `</package>`,
+      ].join("\n"),
+    },
+    {
+      name: "OEBPS/nav.xhtml",
+      data: page(
+        `<nav epub:type="toc"><h1>${title}</h1><ol><li><a href="edition.xhtml">${title}</a></li></ol></nav>`,
+        ` xmlns:epub="http://www.idpf.org/2007/ops"`
+      ),
+    },
+    { name: "OEBPS/edition.xhtml", data: page(`<h1>${title}</h1>\n${editionToHtml(edition)}`) },
+    {
+      name: "OEBPS/style.css",
+      data: [
+        "body { font-family: Georgia, serif; line-height: 1.5; }",
+        "h2.section { border-top: 2px solid #000; padding-top: 0.4em; text-transform: uppercase; }",
+        ".lead h2 { font-size: 1.6em; }",
+        ".byline, .tags { font-size: 0.85em; color: #555; }",
+      ].join("\n"),
+    },
+  ]);
+}
+
+export function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,196 @@
+import type { Edition, LogLine, NamedProfile, NewsBrief } from "./types";
+
+const DB_NAME = "manus.editions";
+const DB_VERSION = 1;
+const EDITION_STORE = "editions";
+const RETENTION_STORAGE_KEY = "manus.editions.retention";
+const LEGACY_CACHE_STORAGE_KEY = "manus.news.cache";
+
+export type EditionSummary = Pick<Edition, "id" | "createdAt" | "profile" | "scheduledFor"> & { storyCount: number };
+
+export type RetentionSettings = {
+  /** Newest editions to keep per profile; older ones are pruned after each save. */
+  maxEditions: number;
+  /** Editions older than this many days are pruned. 0 keeps them forever. */
+  maxAgeDays: number;
+};
+
+export const DEFAULT_RETENTION: RetentionSettings = { maxEditions: 30, maxAgeDays: 30 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openEditionsDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(EDITION_STORE)) {
+        const store = db.createObjectStore(EDITION_STORE, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open edition archive"));
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Edition archive request failed"));
+  });
+}
+
+async function editionStore(mode: IDBTransactionMode) {
+  const db = await openEditionsDb();
+  return db.transaction(EDITION_STORE, mode).objectStore(EDITION_STORE);
+}
+
+/** Newest first; limited to one profile's editions when profileId is given. */
+export async function getAllEditions(profileId?: string): Promise<Edition[]> {
+  const store = await editionStore("readonly");
+  const editions = await promisify<Edition[]>(store.getAll());
+  return editions
+    .filter((edition) => !profileId || edition.profileId === profileId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function createEdition(
+  brief: NewsBrief,
+  profile: NamedProfile,
+  trace: LogLine[],
+  backend?: string
+): Edition {
+  const createdAt = new Date().toISOString();
+  return {
+    id: `${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt,
+    profileId: profile.id,
+    profile: { location: profile.location, topics: profile.topics, preferences: profile.preferences },
+    summary: brief.summary,
+    items: brief.items,
+    trace,
+    backend,
+  };
+}
+
+export async function saveEdition(edition: Edition, retention: RetentionSettings = loadRetention()) {
+  const store = await editionStore("readwrite");
+  await promisify(store.put(edition));
+  return pruneEditions(retention);
+}
+
+/** Stores editions delivered by the server that aren't archived yet and returns how many were added. */
+export async function importEditions(editions: Edition[], retention: RetentionSettings = loadRetention()) {
+  const known = new Set((await getAllEditions()).map((edition) => edition.id));
+  const fresh = editions.filter((edition) => !known.has(edition.id));
+  if (!fresh.length) return 0;
+  const store = await editionStore("readwrite");
+  await Promise.all(fresh.map((edition) => promisify(store.put(edition))));
+  await pruneEditions(retention);
+  return fresh.length;
+}
+
+export async function listEditions(profileId?: string): Promise<EditionSummary[]> {
+  const editions = await getAllEditions(profileId);
+  return editions.map((edition) => ({
+    id: edition.id,
+    createdAt: edition.createdAt,
+    profile: edition.profile,
+    scheduledFor: edition.scheduledFor,
+    storyCount: edition.items.length,
+  }));
+}
+
+export async function loadEdition(id: string): Promise<Edition | null> {
+  const store = await editionStore("readonly");
+  const edition = await promisify<Edition | undefined>(store.get(id));
+  return edition ?? null;
+}
+
+export async function loadLatestEdition(profileId?: string): Promise<Edition | null> {
+  const editions = await getAllEditions(profileId);
+  return editions[0] ?? null;
+}
+
+/** Deletes editions outside the retention window, counted per profile, and returns how many were removed. */
+export async function pruneEditions(retention: RetentionSettings) {
+  const editions = await getAllEditions();
+  const cutoff = retention.maxAgeDays > 0 ? Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000 : null;
+  const kept = new Map<string, number>();
+  const expired = editions.filter((edition) => {
+    const owner = edition.profileId ?? "";
+    const index = kept.get(owner) ?? 0;
+    kept.set(owner, index + 1);
+    return index >= Math.max(1, retention.maxEditions) || (cutoff !== null && Date.parse(edition.createdAt) < cutoff);
+  });
+  if (!expired.length) return 0;
+  const store = await editionStore("readwrite");
+  await Promise.all(expired.map((edition) => promisify(store.delete(edition.id))));
+  return expired.length;
+}
+
+/** Gives editions archived before profiles existed to the given profile. */
+export async function claimUnassignedEditions(profileId: string) {
+  const unassigned = (await getAllEditions()).filter((edition) => !edition.profileId);
+  if (!unassigned.length) return 0;
+  const store = await editionStore("readwrite");
+  await Promise.all(unassigned.map((edition) => promisify(store.put({ ...edition, profileId }))));
+  return unassigned.length;
+}
+
+export async function deleteProfileEditions(profileId: string) {
+  const editions = await getAllEditions(profileId);
+  if (!editions.length) return 0;
+  const store = await editionStore("readwrite");
+  await Promise.all(editions.map((edition) => promisify(store.delete(edition.id))));
+  return editions.length;
+}
+
+export function loadRetention(): RetentionSettings {
+  if (typeof window === "undefined") return DEFAULT_RETENTION;
+  const raw = window.localStorage.getItem(RETENTION_STORAGE_KEY);
+  if (!raw) return DEFAULT_RETENTION;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      maxEditions: Number.isFinite(parsed?.maxEditions) ? parsed.maxEditions : DEFAULT_RETENTION.maxEditions,
+      maxAgeDays: Number.isFinite(parsed?.maxAgeDays) ? parsed.maxAgeDays : DEFAULT_RETENTION.maxAgeDays,
+    };
+  } catch {
+    return DEFAULT_RETENTION;
+  }
+}
+
+export function saveRetention(retention: RetentionSettings) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(retention));
+}
+
+/** Moves the single brief the app used to cache in local storage into the archive. */
+export async function importLegacyBrief(profile: NamedProfile) {
+  if (typeof window === "undefined") return false;
+  const raw = window.localStorage.getItem(LEGACY_CACHE_STORAGE_KEY);
+  if (!raw) return false;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.summary === "string" && Array.isArray(parsed?.items)) {
+      const edition = createEdition({ summary: parsed.summary, items: parsed.items }, profile, []);
+      if (typeof parsed.updatedAt === "string") edition.createdAt = parsed.updatedAt;
+      await saveEdition(edition);
+    }
+  } catch {
+    return false;
+  }
+  window.localStorage.removeItem(LEGACY_CACHE_STORAGE_KEY);
+  return true;
+}
@@ -0,0 +1,123 @@
+import { editionLayout, editionTitle, escapeXml } from "./editionFormats";
+import type { Edition, NewsItem } from "./types";
+
+export type EmailDigest = { subject: string; html: string; text: string };
+
+export const MAX_RECIPIENTS = 5;
+// Deliberately loose: the SMTP server is the real judge, this only keeps header and command injection out.
+const ADDRESS_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+$/;
+
+const FONT = "Georgia, 'Times New Roman', serif";
+const MUTED = "#5b5247";
+const RULE = "#d8cbb8";
+
+/**
+ * The edition as an email: table layout with inline styles only, since mail clients drop
+ * stylesheets, plus a plain-text alternative. Images are only linked from the web, never embedded.
+ */
+export function renderEmailDigest(edition: Edition, appUrl?: string): EmailDigest {
+  const { lead, sections } = editionLayout(edition);
+  const title = editionTitle(edition);
+  const subject = lead ? `${title}: ${lead.title}` : title;
+
+  const link = (item: NewsItem) =>
+    item.url
+      ? `<a href="${escapeXml(item.url)}" style="color:#1f1a14;text-decoration:none;">${escapeXml(item.title)}</a>`
+      : escapeXml(item.title);
+  const byline = (item: NewsItem) => {
+    const parts = [item.source, item.publishedAt].filter(Boolean).join(" · ");
+    const others = (item.sources?.length ?? 0) > 1 ? ` · ${item.sources?.length} outlets` : "";
+    return parts || others
+      ? `<p style="margin:0 0 6px;font:12px ${FONT};color:${MUTED};">${escapeXml(parts + others)}</p>`
+      : "";
+  };
+  const row = (content: string) => `<tr><td style="padding:0 24px;">${content}</td></tr>`;
+
+  const leadHtml = lead
+    ? [
+        row(
+          [
+            `<p style="margin:24px 0 6px;font:bold 11px ${FONT};letter-spacing:2px;text-transform:uppercase;color:${MUTED};">Lead story</p>`,
+            lead.mediaType === "image" && lead.mediaUrl && /^https?:\/\//.test(lead.mediaUrl)
+              ? `<img src="${escapeXml(lead.mediaUrl)}" alt="" width="552" style="display:block;width:100%;max-width:552px;height:auto;border:0;margin:0 0 12px;">`
+              : "",
+            `<h2 style="margin:0 0 8px;font:bold 24px/1.25 ${FONT};color:#1f1a14;">${link(lead)}</h2>`,
+            byline(lead),
+            `<p style="margin:0 0 16px;font:16px/1.5 ${FONT};color:#1f1a14;">${escapeXml(lead.summary)}</p>`,
+          ].join("")
+        ),
+      ]
+    : [];
+
+  const sectionHtml = sections.map(({ section, items }) =>
+    row(
+      [
+        `<h3 style="margin:24px 0 8px;padding-top:8px;border-top:2px solid #1f1a14;font:bold 13px ${FONT};letter-spacing:2px;text-transform:uppercase;color:#1f1a14;">${escapeXml(section.label)}</h3>`,
+        ...items.map((item) =>
+          [
+            `<div style="padding:10px 0;border-bottom:1px solid ${RULE};">`,
+            `<p style="margin:0 0 4px;font:bold 17px/1.3 ${FONT};color:#1f1a14;">${link(item)}</p>`,
+            byline(item),
+            `<p style="margin:0;font:14px/1.5 ${FONT};color:#1f1a14;">${escapeXml(item.summary)}</p>`,
+            `</div>`,
+          ].join("")
+        ),
+      ].join("")
+    )
+  );
+
+  const html = [
+    `<!DOCTYPE html>`,
+    `<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${escapeXml(title)}</title></head>`,
+    `<body style="margin:0;padding:0;background:#efe8dc;">`,
+    `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background:#efe8dc;"><tr><td align="center" style="padding:24px 8px;">`,
+    `<table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="width:100%;max-width:600px;background:#fdf8f1;border:1px solid ${RULE};">`,
+    row(
+      [
+        `<p style="margin:24px 0 4px;font:bold 11px ${FONT};letter-spacing:2px;text-transform:uppercase;color:${MUTED};">Daily Briefing</p>`,
+        `<h1 style="margin:0 0 4px;font:bold 28px/1.2 ${FONT};color:#1f1a14;">${escapeXml(title)}</h1>`,
+        `<p style="margin:0 0 16px;font:13px ${FONT};color:${MUTED};">${escapeXml(edition.profile.topics)}</p>`,
+        `<p style="margin:0;padding:12px 0;border-top:1px solid ${RULE};border-bottom:1px solid ${RULE};font:15px/1.5 ${FONT};color:#1f1a14;">${escapeXml(edition.summary)}</p>`,
+      ].join("")
+    ),
+    ...leadHtml,
+    ...sectionHtml,
+    row(
+      `<p style="margin:24px 0;font:12px ${FONT};color:${MUTED};">${
+        appUrl ? `<a href="${escapeXml(appUrl)}" style="color:${MUTED};">Open the briefing</a> · ` : ""
+      }${edition.items.length} stories · ${escapeXml(new Date(edition.createdAt).toUTCString())}</p>`
+    ),
+    `</table>`,
+    `</td></tr></table>`,
+    `</body></html>`,
+  ].join("\n");
+
+  const textStory = (item: NewsItem) =>
+    [item.title, [item.source, item.publishedAt].filter(Boolean).join(" · "), item.summary, item.url ?? ""]
+      .filter(Boolean)
+      .join("\n");
+  const text = [
+    title.toUpperCase(),
+    edition.profile.topics,
+    edition.summary,
+    ...(lead ? [`LEAD STORY\n\n${textStory(lead)}`] : []),
+    ...sections.map(({ section, items }) => [section.label.toUpperCase(), ...items.map(textStory)].join("\n\n")),
+    appUrl ? `Open the briefing: ${appUrl}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n")
+    .concat("\n");
+
+  return { subject, html, text };
+}
+
+/** Comma- or space-separated addresses, or a list of them; null when one is malformed or there are too many. */
+export function parseRecipients(value: unknown) {
+  const entries = (Array.isArray(value) ? value.join(",") : typeof value === "string" ? value : "")
+    .split(/[,;\s]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const recipients = Array.from(new Set(entries));
+  if (recipients.length > MAX_RECIPIENTS || recipients.some((entry) => !ADDRESS_PATTERN.test(entry))) return null;
+  return recipients;
+}
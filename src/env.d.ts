@@ -1,7 +1,7 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_MANUS_API_KEY?: string;
+  readonly VITE_RESEARCH_BACKEND?: string;
 }
 
 interface ImportMeta {
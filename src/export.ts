@@ -0,0 +1,40 @@
+import { editionTitle, editionToEpub, editionToMarkdown } from "./editionFormats";
+import { loadDeliverySecret } from "./schedule";
+import type { Edition } from "./types";
+
+export type DownloadFormat = "markdown" | "epub";
+
+const FEED_PATH = "/feed.atom";
+
+export function downloadEdition(edition: Edition, format: DownloadFormat) {
+  const name = editionTitle(edition).replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "").toLowerCase();
+  if (format === "markdown") {
+    saveBlob(new Blob([editionToMarkdown(edition)], { type: "text/markdown;charset=utf-8" }), `${name}.md`);
+  } else {
+    saveBlob(new Blob([editionToEpub(edition)], { type: "application/epub+zip" }), `${name}.epub`);
+  }
+}
+
+/**
+ * Atom feed of the editions the server delivered for the profile; feed readers subscribe to this URL.
+ * It carries the delivery secret, since feed readers cannot send it as a header.
+ */
+export function feedUrl(profileId?: string) {
+  const url = new URL(FEED_PATH, window.location.origin);
+  if (profileId) url.searchParams.set("profile", profileId);
+  const secret = loadDeliverySecret();
+  if (secret) url.searchParams.set("token", secret);
+  return url.toString();
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick so the download has started.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,132 @@
+import { storyKey } from "./dedupe";
+import { storyHosts, topicPattern } from "./preferences";
+import type { AppendLog, NewsItem, ReaderProfile, StoryFeedback, StoryRating } from "./types";
+
+const MAX_FEEDBACK = 200;
+// Signals weaker than this either way are left out of the prompt.
+const PROMPT_THRESHOLD = 2;
+const MAX_PROMPT_SIGNALS = 8;
+
+export const RATING_WEIGHTS: Record<StoryRating, number> = { up: 1, down: -1, more: 2, less: -2 };
+
+export type InterestKind = "topic" | "tag" | "source";
+
+export type InterestSignal = { kind: InterestKind; label: string; weight: number };
+
+/** Summed rating weights per topic, tag and source, keyed by lowercase label. */
+export type InterestModel = Record<InterestKind, Record<string, number>>;
+
+/** Captures what a rating applies to: matched profile topics, tags and source hosts. */
+export function createFeedback(story: NewsItem, profile: ReaderProfile, rating: StoryRating): StoryFeedback {
+  const text = [story.title, story.summary, ...(story.tags ?? [])].join(" ");
+  return {
+    key: storyKey(story),
+    title: story.title,
+    rating,
+    topics: profile.topics
+      .split(",")
+      .map((topic) => topic.trim())
+      .filter((topic) => topic && topicPattern(topic).test(text)),
+    tags: story.tags ?? [],
+    sources: Array.from(new Set(storyHosts(story))),
+    ratedAt: new Date().toISOString(),
+  };
+}
+
+/** Adds a rating, replacing any earlier one for the same story; the same rating again takes it back. */
+export function rateStory(feedback: StoryFeedback[] = [], entry: StoryFeedback) {
+  const previous = feedback.find((item) => item.key === entry.key);
+  const rest = feedback.filter((item) => item.key !== entry.key);
+  if (previous?.rating === entry.rating) return rest;
+  return [entry, ...rest].slice(0, MAX_FEEDBACK);
+}
+
+export function ratingFor(feedback: StoryFeedback[] = [], story: NewsItem) {
+  const key = storyKey(story);
+  return feedback.find((item) => item.key === key)?.rating ?? null;
+}
+
+export function buildInterestModel(feedback: StoryFeedback[] = []): InterestModel {
+  const model: InterestModel = { topic: {}, tag: {}, source: {} };
+  feedback.forEach((entry) => {
+    const weight = RATING_WEIGHTS[entry.rating] ?? 0;
+    const add = (kind: InterestKind, label: string) => {
+      const key = label.trim().toLowerCase();
+      if (key) model[kind][key] = (model[kind][key] ?? 0) + weight;
+    };
+    entry.topics.forEach((label) => add("topic", label));
+    entry.tags.forEach((label) => add("tag", label));
+    entry.sources.forEach((label) => add("source", label));
+  });
+  return model;
+}
+
+/** Boosted and suppressed signals, strongest first. */
+export function interestSignals(model: InterestModel) {
+  const signals: InterestSignal[] = (Object.keys(model) as InterestKind[]).flatMap((kind) =>
+    Object.entries(model[kind])
+      .filter(([, weight]) => weight !== 0)
+      .map(([label, weight]) => ({ kind, label, weight }))
+  );
+  return {
+    boosted: signals.filter((signal) => signal.weight > 0).sort((a, b) => b.weight - a.weight),
+    suppressed: signals.filter((signal) => signal.weight < 0).sort((a, b) => a.weight - b.weight),
+  };
+}
+
+/** Prompt lines for the research prompt; empty until the reader has rated enough stories to show a pattern. */
+export function interestConstraints(feedback: StoryFeedback[] = []) {
+  const { boosted, suppressed } = interestSignals(buildInterestModel(feedback));
+  const describe = (signals: InterestSignal[]) =>
+    signals
+      .filter((signal) => Math.abs(signal.weight) >= PROMPT_THRESHOLD)
+      .slice(0, MAX_PROMPT_SIGNALS)
+      .map((signal) => (signal.kind === "source" ? `stories from ${signal.label}` : signal.label))
+      .join(", ");
+  const more = describe(boosted);
+  const less = describe(suppressed);
+  return [
+    ...(more ? [`The reader has asked for more of: ${more}`] : []),
+    ...(less ? [`The reader has asked for less of: ${less}`] : []),
+  ];
+}
+
+/** Moves stories the interest model favours up, and ones it disfavours down; ties keep the research order. */
+export function rankByInterest(items: NewsItem[], profile: ReaderProfile, appendLog: AppendLog) {
+  if (!profile.feedback?.length) return items;
+  const model = buildInterestModel(profile.feedback);
+  const scored = items.map((item, index) => {
+    const signals = createFeedback(item, profile, "up");
+    const score =
+      signals.topics.reduce((sum, label) => sum + (model.topic[label.toLowerCase()] ?? 0), 0) +
+      signals.tags.reduce((sum, label) => sum + (model.tag[label.trim().toLowerCase()] ?? 0), 0) +
+      signals.sources.reduce((sum, label) => sum + (model.source[label] ?? 0), 0);
+    return { item, index, score };
+  });
+  const ranked = [...scored].sort((a, b) => b.score - a.score || a.index - b.index);
+  const moved = ranked.filter((entry, position) => entry.index !== position).length;
+  if (moved) appendLog(`Reordered ${moved} stor${moved === 1 ? "y" : "ies"} using your feedback.`, "interests");
+  return ranked.map((entry) => entry.item);
+}
+
+/** Drops malformed entries, for feedback read from storage or a request body. */
+export function normalizeFeedback(value: unknown): StoryFeedback[] {
+  if (!Array.isArray(value)) return [];
+  const strings = (list: unknown) =>
+    Array.isArray(list) ? list.filter((entry): entry is string => typeof entry === "string") : [];
+  return value
+    .filter(
+      (entry) =>
+        typeof entry?.key === "string" && typeof entry?.rating === "string" && entry.rating in RATING_WEIGHTS
+    )
+    .slice(0, MAX_FEEDBACK)
+    .map((entry) => ({
+      key: entry.key,
+      title: typeof entry.title === "string" ? entry.title : "",
+      rating: entry.rating as StoryRating,
+      topics: strings(entry.topics),
+      tags: strings(entry.tags),
+      sources: strings(entry.sources),
+      ratedAt: typeof entry.ratedAt === "string" ? entry.ratedAt : new Date(0).toISOString(),
+    }));
+}
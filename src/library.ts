@@ -0,0 +1,80 @@
+import { storyKey } from "./dedupe";
+import type { NewsItem } from "./types";
+
+const LIBRARY_STORAGE_KEY = "manus.reader.library";
+// Enough to cover a month of daily editions without letting local storage grow forever.
+const MAX_READ = 1000;
+const MAX_SEEN_PER_PROFILE = 500;
+
+export type SavedStory = {
+  key: string;
+  story: NewsItem;
+  savedAt: string;
+  /** Profile the story was saved from; the Saved view lists every profile's stories. */
+  profileId?: string;
+};
+
+export type Library = {
+  saved: SavedStory[];
+  /** Keys of stories whose full article was opened, newest last. */
+  read: string[];
+  /** Per profile: story keys shown on earlier visits, newest last. */
+  seen: Record<string, string[]>;
+};
+
+const EMPTY_LIBRARY: Library = { saved: [], read: [], seen: {} };
+
+export function loadLibrary(): Library {
+  if (typeof window === "undefined") return EMPTY_LIBRARY;
+  const raw = window.localStorage.getItem(LIBRARY_STORAGE_KEY);
+  if (!raw) return EMPTY_LIBRARY;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      saved: Array.isArray(parsed?.saved)
+        ? parsed.saved.filter((entry: any) => typeof entry?.key === "string" && typeof entry?.story?.title === "string")
+        : [],
+      read: Array.isArray(parsed?.read) ? parsed.read.filter((key: unknown) => typeof key === "string") : [],
+      seen: parsed?.seen && typeof parsed.seen === "object" ? parsed.seen : {},
+    };
+  } catch {
+    return EMPTY_LIBRARY;
+  }
+}
+
+export function saveLibrary(library: Library) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+}
+
+export function isSaved(library: Library, story: NewsItem) {
+  const key = storyKey(story);
+  return library.saved.some((entry) => entry.key === key);
+}
+
+export function isRead(library: Library, story: NewsItem) {
+  return library.read.includes(storyKey(story));
+}
+
+/** Saves the story, or removes it when it is already saved. */
+export function toggleSaved(library: Library, story: NewsItem, profileId?: string): Library {
+  const key = storyKey(story);
+  if (library.saved.some((entry) => entry.key === key)) {
+    return { ...library, saved: library.saved.filter((entry) => entry.key !== key) };
+  }
+  return { ...library, saved: [{ key, story, savedAt: new Date().toISOString(), profileId }, ...library.saved] };
+}
+
+export function markRead(library: Library, story: NewsItem): Library {
+  const key = storyKey(story);
+  if (library.read.includes(key)) return library;
+  return { ...library, read: [...library.read, key].slice(-MAX_READ) };
+}
+
+/** Remembers stories as shown to the profile, so the next visit can tell which ones are new. */
+export function markSeen(library: Library, profileId: string, stories: NewsItem[]): Library {
+  const seen = library.seen[profileId] ?? [];
+  const fresh = stories.map(storyKey).filter((key) => !seen.includes(key));
+  if (!fresh.length) return library;
+  return { ...library, seen: { ...library.seen, [profileId]: [...seen, ...fresh].slice(-MAX_SEEN_PER_PROFILE) } };
+}
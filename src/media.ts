@@ -0,0 +1,74 @@
+import type { AppendLog, NewsItem, ReaderProfile } from "./types";
+import { isAbortError } from "./utils";
+
+export type ImageResult = { url?: string; error?: string };
+
+/** Turns an image prompt into a hosted image URL; the browser goes through /ai-image, the scheduler calls OpenAI directly. */
+export type ImageRequester = (prompt: string, signal?: AbortSignal) => Promise<ImageResult>;
+
+export async function generateAiMedia(
+  items: NewsItem[],
+  profile: ReaderProfile,
+  appendLog: AppendLog,
+  signal?: AbortSignal,
+  requestImage: ImageRequester = requestAiImage
+) {
+  if (!items.length) return items;
+  appendLog("Generating AI images for stories...", "media");
+  const next = [...items];
+  let abortRemaining = false;
+
+  for (let index = 0; index < next.length; index += 1) {
+    if (abortRemaining) break;
+    if (signal?.aborted) {
+      appendLog(`Skipped ${next.length - index} remaining AI images (cancelled).`, "media");
+      break;
+    }
+    const item = next[index];
+    try {
+      const prompt = buildImagePrompt(item, profile);
+      const result = await requestImage(prompt, signal);
+      if (result.error) {
+        if (result.error.includes("Missing OPENAI_API_KEY")) {
+          appendLog("Missing OPENAI_API_KEY; skipping AI images.", "media");
+          abortRemaining = true;
+        } else {
+          appendLog(`AI image failed for "${item.title}" (${result.error})`, "media");
+        }
+        continue;
+      }
+      if (!result.url) continue;
+      next[index] = {
+        ...item,
+        mediaUrl: result.url,
+        mediaType: "image",
+      };
+    } catch (error) {
+      if (isAbortError(error)) continue;
+      const message = error instanceof Error ? error.message : "Unknown image error";
+      appendLog(`AI image failed for "${item.title}" (${message})`, "media");
+    }
+  }
+
+  return next;
+}
+
+async function requestAiImage(prompt: string, signal?: AbortSignal): Promise<ImageResult> {
+  const response = await fetch("/ai-image", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ prompt }),
+    signal,
+  });
+  const data = (await response.json().catch(() => ({}))) as Record<string, any>;
+  if (!response.ok) {
+    return { error: data?.error || "AI image request failed" };
+  }
+  return { url: data?.url };
+}
+
+function buildImagePrompt(item: NewsItem, profile: ReaderProfile) {
+  const tags = item.tags?.length ? `Tags: ${item.tags.join(", ")}.` : "";
+  const location = profile.location ? `Location: ${profile.location}.` : "Location: Global.";
+  return `Create a photojournalistic newspaper illustration. ${location} Category: ${item.category}. ${tags}\nTitle: ${item.title}.\nSummary: ${item.summary}\nStyle: cinematic, realistic, no text, no logos.`;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { BRIEF_SCHEMA_VERSION } from "./briefSchema";
+import { parseBrief } from "./news";
+
+const document = {
+  schemaVersion: BRIEF_SCHEMA_VERSION,
+  summary: "Two stories today.",
+  items: [
+    { title: "Port expansion approved", summary: "Work starts in May.", category: "Local" },
+    { title: "Rates held", summary: "The central bank waited.", category: "International" },
+  ],
+};
+
+describe("parseBrief", () => {
+  it("reads a bare or fenced JSON reply", () => {
+    expect(parseBrief(JSON.stringify(document))).toMatchObject({ format: "json", summary: "Two stories today." });
+    const fenced = parseBrief(`Here is the brief:\n\`\`\`json\n${JSON.stringify(document)}\n\`\`\``);
+    expect(fenced.format).toBe("json");
+    expect(fenced.items).toHaveLength(2);
+  });
+
+  it("reads markdown with braces in it as markdown", () => {
+    const parsed = parseBrief(
+      [
+        "A busy morning.",
+        "- [Launch of {new} console](https://example.com/console) - Sales open Friday",
+        "- [Budget passes](https://example.com/budget) - Spending {up} 4%",
+      ].join("\n")
+    );
+    expect(parsed.format).toBe("markdown");
+    expect(parsed.summary).toBe("A busy morning.");
+    expect(parsed.items.map((item) => item.title)).toEqual(["Launch of {new} console", "Budget passes"]);
+  });
+
+  it("gives an empty brief for truncated JSON instead of showing it", () => {
+    const text = JSON.stringify(document).slice(0, 60);
+    expect(parseBrief(text)).toMatchObject({ format: "json", summary: "", items: [] });
+    expect(parseBrief(`\`\`\`json\n${text}`)).toMatchObject({ format: "json", items: [] });
+  });
+
+  it("gives an empty brief when no item passes the schema", () => {
+    const parsed = parseBrief(JSON.stringify({ ...document, items: [{ title: "No category", summary: "" }] }));
+    expect(parsed).toMatchObject({ format: "json", items: [] });
+    expect(parsed.note).toMatch(/^schema validation failed/);
+  });
+
+  it("notes the items it dropped", () => {
+    const parsed = parseBrief(JSON.stringify({ ...document, items: [...document.items, { title: "" }] }));
+    expect(parsed.items).toHaveLength(2);
+    expect(parsed.note).toMatch(/dropped 1 item/);
+  });
+});
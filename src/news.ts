@@ -0,0 +1,185 @@
+import { BRIEF_SCHEMA_EXAMPLE, BRIEF_SCHEMA_VERSION, validateBrief } from "./briefSchema";
+import { PLACEHOLDER_SUMMARY } from "./dedupe";
+import { interestConstraints } from "./interests";
+import { MAX_STORY_COUNT, normalizePreferences, preferenceConstraints, WEIGHTED_CATEGORIES } from "./preferences";
+import type { NewsBrief, NewsCategory, NewsItem, ReaderProfile } from "./types";
+
+export type ParsedBrief = NewsBrief & {
+  format: "json" | "markdown";
+  /** Why this path was taken, for the agent trace. */
+  note: string;
+};
+
+export const RESEARCH_SYSTEM_PROMPT =
+  "You are a social web researcher. Search and summarize signals from social platforms (Reddit, Twitter/X, Facebook groups, YouTube comments) and user conversations. Focus on lived experience, opinions, comparisons, and sentiment-not official marketing copy. Return the most relevant links/posts and a concise synthesis of what people are saying. Be brief, avoid fluff, and prioritize recency and credibility.";
+
+export function buildNewsPrompt(profile: ReaderProfile) {
+  const preferences = normalizePreferences(profile.preferences);
+  const locationLine = profile.location ? `Location: ${profile.location}.` : "Location: Global.";
+  const categories = WEIGHTED_CATEGORIES.filter((category) => preferences.categoryWeights[category]).join(", ");
+  const coverage = [
+    ...preferenceConstraints(preferences),
+    ...interestConstraints(profile.feedback),
+    "Order items from best match to least relevant",
+  ]
+    .map((line) => `- ${line}`)
+    .join("\n");
+  return `You are preparing a newspaper platform daily briefing. Search fast and shallow, prioritizing speed over depth.\n${locationLine}\nUser interests: ${profile.topics}.\n\nCoverage requirements:\n${coverage}\n\nReturn only a JSON document (no prose, no markdown fences) matching schema ${BRIEF_SCHEMA_VERSION}:\n${JSON.stringify(
+    BRIEF_SCHEMA_EXAMPLE,
+    null,
+    2
+  )}\n- summary: a 2-3 sentence front-page summary.\n- items: ${preferences.storyCount} stories, best match first. category is exactly one of ${categories}. tags are optional short labels. publishedAt is the story's publication date.\nPrefer credible, recent sources with direct links so readers can open them.`;
+}
+
+/**
+ * Reads a model response as schema JSON when it is a JSON reply, and as the markdown bullet
+ * format otherwise. A JSON reply that does not make a brief (partial, invalid or off-schema)
+ * gives an empty one, so raw JSON never reaches the page as a summary or stories.
+ */
+export function parseBrief(text: string): ParsedBrief {
+  if (!text) return { summary: "", items: [], format: "markdown", note: "empty response" };
+  const candidate = extractJsonCandidate(text);
+  if (!candidate) {
+    return { ...parseNewsText(text), format: "markdown", note: "no JSON document in response" };
+  }
+  let document: unknown;
+  try {
+    document = JSON.parse(candidate);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "invalid JSON";
+    return emptyJsonBrief(`JSON did not parse (${message})`);
+  }
+  const validation = validateBrief(document);
+  if (!validation.brief) {
+    return emptyJsonBrief(`schema validation failed: ${validation.errors.slice(0, 3).join("; ")}`);
+  }
+  const note = validation.dropped.length
+    ? `valid ${BRIEF_SCHEMA_VERSION}; dropped ${validation.dropped.length} item(s): ${validation.dropped
+        .slice(0, 3)
+        .join("; ")}`
+    : `valid ${BRIEF_SCHEMA_VERSION}`;
+  return { ...validation.brief, format: "json", note };
+}
+
+function emptyJsonBrief(note: string): ParsedBrief {
+  return { summary: "", items: [], format: "json", note };
+}
+
+/**
+ * The document of a JSON reply: one that starts with "{" or a fence, or has a ```json fence.
+ * Braces inside a markdown reply do not count. A document cut off mid-way is returned as it is.
+ */
+function extractJsonCandidate(text: string) {
+  const trimmed = text.trim();
+  const fenced =
+    trimmed.match(/```json\s*([\s\S]*?)(?:```|$)/i) ?? trimmed.match(/^```\s*(\{[\s\S]*?)(?:```|$)/);
+  if (fenced) return fenced[1].trim();
+  if (!trimmed.startsWith("{")) return null;
+  const end = trimmed.lastIndexOf("}");
+  return end > 0 ? trimmed.slice(0, end + 1) : trimmed;
+}
+
+export function parseNewsText(text: string): NewsBrief {
+  if (!text) return { summary: "", items: [] };
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const items: NewsItem[] = [];
+  const summaryLines: string[] = [];
+  let sawBullets = false;
+
+  for (const line of lines) {
+    if (/^[-*]\s+/.test(line)) {
+      sawBullets = true;
+      const item = parseNewsBullet(line);
+      if (item) items.push(item);
+      continue;
+    }
+    if (!sawBullets && !line.startsWith("#")) {
+      summaryLines.push(line);
+    }
+  }
+
+  const summary = summaryLines.join(" ").trim();
+  const trimmedItems = items.slice(0, MAX_STORY_COUNT);
+  if (!trimmedItems.length && summary) {
+    const title = summary.split(".")[0]?.trim() || "Top story";
+    trimmedItems.push({ title, summary, category: "Other", tags: [] });
+  }
+  return { summary, items: trimmedItems };
+}
+
+function parseNewsBullet(line: string): NewsItem | null {
+  const cleaned = line.replace(/^[-*]\s+/, "").trim();
+  const markdownLink = cleaned.match(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/);
+  if (markdownLink) {
+    const title = markdownLink[1];
+    const url = markdownLink[2];
+    const summary = cleaned
+      .replace(markdownLink[0], "")
+      .replace(/^[-–—:]+\s*/, "")
+      .trim();
+    const parsed = parseCategory(summary);
+    return {
+      title,
+      summary: parsed.summary || PLACEHOLDER_SUMMARY,
+      url,
+      category: parsed.category,
+      tags: parsed.tags,
+    };
+  }
+
+  const urlMatch = cleaned.match(/https?:\/\/\S+/);
+  if (urlMatch) {
+    const url = urlMatch[0].replace(/[),.]+$/, "");
+    const withoutUrl = cleaned.replace(urlMatch[0], "").trim();
+    const parts = withoutUrl.split(" - ");
+    const title = parts[0] || "Source link";
+    const summary = parts.slice(1).join(" - ").trim() || PLACEHOLDER_SUMMARY;
+    const parsed = parseCategory(summary);
+    return {
+      title,
+      summary: parsed.summary,
+      url,
+      category: parsed.category,
+      tags: parsed.tags,
+    };
+  }
+
+  if (!cleaned) return null;
+  const parsed = parseCategory("");
+  return {
+    title: cleaned,
+    summary: "",
+    category: parsed.category,
+    tags: parsed.tags,
+  };
+}
+
+function parseCategory(text: string): { category: NewsCategory; summary: string; tags: string[] } {
+  if (!text) return { category: "Other", summary: text, tags: [] };
+  const tagMatch = text.match(/\[(.+?)\]/);
+  const tags = tagMatch
+    ? tagMatch[1]
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    : [];
+  const cleaned = tagMatch ? text.replace(tagMatch[0], "").trim() : text;
+  const match = cleaned.match(/^(Local|International|Interest|Social)\b[\s:|-]*(.*)$/i);
+  if (!match) return { category: "Other", summary: cleaned, tags };
+  const category = normalizeCategory(match[1]);
+  const summary = match[2]?.trim() || "";
+  return { category, summary, tags };
+}
+
+export function normalizeCategory(raw: string): NewsCategory {
+  const normalized = raw.toLowerCase();
+  if (normalized.startsWith("local")) return "Local";
+  if (normalized.startsWith("international")) return "International";
+  if (normalized.startsWith("interest")) return "Interest";
+  if (normalized.startsWith("social")) return "Social";
+  return "Other";
+}
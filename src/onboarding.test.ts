@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import {
+  createOnboardingState,
+  isUncertainReply,
+  MAX_MISSES,
+  onboardingReducer,
+  parseOnboardingOffline,
+  shouldListenAfterQuestion,
+} from "./onboarding";
+import type { OnboardingEvent, OnboardingState } from "./onboarding";
+
+function run(events: OnboardingEvent[], state = createOnboardingState()) {
+  return events.reduce(onboardingReducer, state);
+}
+
+/** One reply, as App.tsx sends it: uncertain, or reply then the offline parse of it. */
+function answer(state: OnboardingState, text: string) {
+  if (isUncertainReply(text)) return onboardingReducer(state, { type: "uncertain" });
+  const sent = onboardingReducer(state, { type: "reply" });
+  return onboardingReducer(sent, { type: "parsed", result: parseOnboardingOffline(text, sent.draft) });
+}
+
+describe("onboardingReducer", () => {
+  it("walks a spoken onboarding from intro to confirm", () => {
+    let state = run([{ type: "next" }]);
+    expect(state.step).toBe("location");
+    state = answer(state, "I live in Penang");
+    expect(state.step).toBe("topics");
+    expect(state.draft.location).toBe("Penang");
+    state = answer(state, "AI, startups and food");
+    expect(state.step).toBe("confirm");
+    expect(state.draft).toEqual({ location: "Penang", topics: "AI, startups, food" });
+  });
+
+  it("walks a typed onboarding through edits and next", () => {
+    const state = run([
+      { type: "next" },
+      { type: "edit", field: "location", value: "Singapore" },
+      { type: "next" },
+      { type: "edit", field: "topics", value: "Fintech" },
+      { type: "next" },
+    ]);
+    expect(state.step).toBe("confirm");
+    expect(state.draft).toEqual({ location: "Singapore", topics: "Fintech" });
+  });
+
+  it("does not review without topics", () => {
+    const state = run([{ type: "next" }, { type: "next" }, { type: "next" }]);
+    expect(state.step).toBe("topics");
+  });
+
+  it("answers an uncertain reply with suggestions on the same step", () => {
+    const before = run([{ type: "next" }]);
+    const state = answer(before, "I'm not sure, you decide");
+    expect(state.step).toBe("location");
+    expect(state.question.text).toMatch(/Pick a region/);
+    expect(state.question.id).toBeGreaterThan(before.question.id);
+    expect(state.parsing).toBe(false);
+  });
+
+  it("asks again, as a new question, when the same follow-up repeats", () => {
+    const first = answer(run([{ type: "next" }]), "no idea");
+    const second = answer(first, "no idea");
+    expect(second.question.text).toBe(first.question.text);
+    expect(second.question).not.toBe(first.question);
+  });
+
+  it("uses the server's follow-up question when a step is still missing", () => {
+    const state = run([
+      { type: "next" },
+      { type: "reply" },
+      { type: "parsed", result: { location: null, topics: [], followupQuestion: "Which city?" } },
+    ]);
+    expect(state.step).toBe("location");
+    expect(state.question.text).toBe("Which city?");
+  });
+
+  it("merges a parse with the draft as edited while it was pending", () => {
+    const state = run([
+      { type: "next" },
+      { type: "next" },
+      { type: "reply" },
+      { type: "edit", field: "location", value: "Tokyo" },
+      { type: "parsed", result: { topics: ["Robotics"] } },
+    ]);
+    expect(state.draft).toEqual({ location: "Tokyo", topics: "Robotics" });
+    expect(state.step).toBe("confirm");
+  });
+
+  it("keeps the step and reports the error when parsing fails", () => {
+    const state = run([{ type: "next" }, { type: "reply" }, { type: "error", message: "LLM error" }]);
+    expect(state).toMatchObject({ step: "location", parsing: false, error: "LLM error" });
+  });
+
+  it("drops a parse that arrives after the reader went back", () => {
+    const state = run([
+      { type: "next" },
+      { type: "reply" },
+      { type: "back" },
+      { type: "parsed", result: { location: "Berlin" } },
+    ]);
+    expect(state.step).toBe("intro");
+    expect(state.draft.location).toBe("");
+  });
+
+  it("goes back one step at a time", () => {
+    const confirm = run([
+      { type: "next" },
+      { type: "edit", field: "topics", value: "Climate" },
+      { type: "next" },
+      { type: "next" },
+    ]);
+    expect(run([{ type: "back" }], confirm).step).toBe("topics");
+    expect(run([{ type: "back" }, { type: "back" }], confirm).step).toBe("location");
+    expect(run([{ type: "back" }, { type: "back" }, { type: "back" }, { type: "back" }], confirm).step).toBe("intro");
+  });
+
+  it("stops reopening the mic after repeated empty replies", () => {
+    let state = run([{ type: "next" }]);
+    expect(shouldListenAfterQuestion(state)).toBe(true);
+    for (let miss = 0; miss < MAX_MISSES; miss += 1) state = onboardingReducer(state, { type: "unheard" });
+    expect(state.question.text).toMatch(/couldn't quite hear/);
+    expect(shouldListenAfterQuestion(state)).toBe(false);
+    state = onboardingReducer(state, { type: "edit", field: "location", value: "Oslo" });
+    expect(shouldListenAfterQuestion(state)).toBe(true);
+  });
+
+  it("ignores replies outside the answer steps", () => {
+    const intro = createOnboardingState();
+    expect(onboardingReducer(intro, { type: "reply" })).toBe(intro);
+    expect(onboardingReducer(intro, { type: "unheard" })).toBe(intro);
+  });
+
+  it("starts over from the given draft when opened", () => {
+    const state = run([{ type: "next" }, { type: "open", draft: { location: "Lagos", topics: "Music" } }]);
+    expect(state.step).toBe("intro");
+    expect(state.draft).toEqual({ location: "Lagos", topics: "Music" });
+  });
+});
+
+describe("parseOnboardingOffline", () => {
+  it("finds a region and topics in one sentence", () => {
+    expect(parseOnboardingOffline("I'm based in Kuala Lumpur and care about fintech, AI and football.")).toEqual({
+      location: "Kuala Lumpur",
+      topics: ["fintech", "AI", "football"],
+      missing: [],
+      followupQuestion: null,
+    });
+  });
+
+  it("takes a bare answer as the region until one is known, then as topics", () => {
+    expect(parseOnboardingOffline("Penang")).toMatchObject({ location: "Penang", topics: [], missing: ["topics"] });
+    expect(parseOnboardingOffline("robotics and space", { location: "Penang" })).toMatchObject({
+      location: null,
+      topics: ["robotics", "space"],
+      missing: [],
+    });
+  });
+
+  it("recognises global coverage and suggested regions", () => {
+    expect(parseOnboardingOffline("just global please").location).toBe("Global");
+    expect(parseOnboardingOffline("mostly europe").location).toBe("Europe");
+  });
+
+  it("reports what is still missing", () => {
+    expect(parseOnboardingOffline("").missing).toEqual(["location", "topics"]);
+  });
+});
+
+describe("isUncertainReply", () => {
+  it("spots replies that ask for suggestions", () => {
+    expect(isUncertainReply("Hmm, I don't know")).toBe(true);
+    expect(isUncertainReply("Can you recommend something?")).toBe(true);
+    expect(isUncertainReply("Technology and politics")).toBe(false);
+  });
+});
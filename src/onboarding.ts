@@ -0,0 +1,181 @@
+import type { ReaderProfile } from "./types";
+
+export type OnboardingStep = "intro" | "location" | "topics" | "confirm";
+
+export type OnboardingParseMissing = "location" | "topics";
+
+/** What /ai-onboarding extracts from one reply. */
+export type OnboardingParseResult = {
+  location?: string | null;
+  topics?: string[] | string | null;
+  followupQuestion?: string | null;
+  missing?: OnboardingParseMissing[] | null;
+};
+
+export type OnboardingState = {
+  step: OnboardingStep;
+  draft: ReaderProfile;
+  /** What the assistant last asked. A new object every time it asks, so the same words are spoken again. */
+  question: { id: number; text: string };
+  /** Set while a reply is with /ai-onboarding; results arriving after the reader moved on are dropped. */
+  parsing: boolean;
+  error: string | null;
+  /** Empty voice replies in a row; the mic stops reopening by itself after MAX_MISSES. */
+  misses: number;
+};
+
+export type OnboardingEvent =
+  | { type: "open"; draft: ReaderProfile }
+  | { type: "next" }
+  | { type: "back" }
+  | { type: "edit"; field: "location" | "topics"; value: string }
+  | { type: "reply" }
+  | { type: "uncertain" }
+  | { type: "parsed"; result: OnboardingParseResult }
+  | { type: "error"; message: string }
+  | { type: "unheard" };
+
+export const LOCATION_SUGGESTIONS = ["Global", "Malaysia", "Singapore", "United States", "Europe", "Asia"];
+export const TOPIC_SUGGESTIONS = ["Technology", "Business", "Politics", "Food", "Entertainment", "Sports"];
+export const MAX_MISSES = 2;
+
+const STEP_PROMPTS: Record<OnboardingStep, string> = {
+  intro: "I can tailor a daily briefing in two quick questions.",
+  location: "Tell me the region you care about. You can say a city, country, or just global.",
+  topics: "What kinds of news should I follow for you? A few interests is perfect.",
+  confirm: "Ready to start your personalized briefing.",
+};
+const UNHEARD_PROMPT = "I couldn't quite hear that. Please try again in a full sentence.";
+const UNCERTAIN_PHRASES = [
+  "don't know",
+  "dont know",
+  "not sure",
+  "no idea",
+  "you decide",
+  "whatever",
+  "help me",
+  "suggest",
+  "recommend",
+  "give me ideas",
+];
+
+export function createOnboardingState(draft: ReaderProfile = { location: "", topics: "" }): OnboardingState {
+  return {
+    step: "intro",
+    draft: { location: draft.location, topics: draft.topics },
+    question: { id: 0, text: STEP_PROMPTS.intro },
+    parsing: false,
+    error: null,
+    misses: 0,
+  };
+}
+
+export function onboardingReducer(state: OnboardingState, event: OnboardingEvent): OnboardingState {
+  const answering = state.step === "location" || state.step === "topics";
+  if (event.type === "open") {
+    return { ...createOnboardingState(event.draft), question: nextQuestion(state, STEP_PROMPTS.intro) };
+  }
+  if (event.type === "next") {
+    if (state.step === "intro") return ask(state, "location");
+    if (state.step === "location") return ask(state, "topics");
+    if (state.step === "topics" && state.draft.topics.trim()) return ask(state, "confirm");
+    return state;
+  }
+  if (event.type === "back") {
+    if (state.step === "location") return ask(state, "intro");
+    if (state.step === "topics") return ask(state, "location");
+    if (state.step === "confirm") return ask(state, "topics");
+    return state;
+  }
+  if (event.type === "edit") {
+    return { ...state, draft: { ...state.draft, [event.field]: event.value }, error: null, misses: 0 };
+  }
+  if (!answering) return state;
+  if (event.type === "reply") return { ...state, parsing: true, error: null, misses: 0 };
+  if (event.type === "uncertain") return ask(state, state.step, suggestionPrompt(state.step));
+  if (event.type === "unheard") return { ...ask(state, state.step, UNHEARD_PROMPT), misses: state.misses + 1 };
+  if (!state.parsing) return state;
+  if (event.type === "error") return { ...state, parsing: false, error: event.message };
+
+  // Merged with the draft as it is now, not as it was when the reply was sent.
+  const { result } = event;
+  const location = (typeof result.location === "string" && result.location.trim()) || state.draft.location;
+  const topics = normalizeTopics(result.topics) || state.draft.topics;
+  const parsed = { ...state, draft: { ...state.draft, location, topics } };
+  const followup = (typeof result.followupQuestion === "string" && result.followupQuestion.trim()) || null;
+  if (state.step === "location") {
+    return location.trim() ? ask(parsed, "topics") : ask(parsed, "location", followup ?? suggestionPrompt("location"));
+  }
+  return topics.trim() ? ask(parsed, "confirm") : ask(parsed, "topics", followup ?? suggestionPrompt("topics"));
+}
+
+/** Replies like "I don't know" or "you decide", answered with suggestions instead of a parse. */
+export function isUncertainReply(text: string) {
+  const lowered = text.toLowerCase();
+  return UNCERTAIN_PHRASES.some((phrase) => lowered.includes(phrase));
+}
+
+/** The mic reopens after a question on the two answer steps, until replies keep coming back empty. */
+export function shouldListenAfterQuestion(state: OnboardingState) {
+  return (state.step === "location" || state.step === "topics") && state.misses < MAX_MISSES;
+}
+
+/**
+ * A keyword stand-in for /ai-onboarding, used by the server when no OpenAI key is set and by the
+ * tests. A bare answer is taken as the region until one is known, and as topics after that.
+ */
+export function parseOnboardingOffline(text: string, existing: Partial<ReaderProfile> = {}): OnboardingParseResult {
+  const cleaned = text.replace(/\s+/g, " ").trim().replace(/[.!?]+$/, "");
+  const lowered = cleaned.toLowerCase();
+  const named = cleaned.match(/\b(?:in|from|around|near|focus on|live in|based in)\s+([A-Z][\w'-]*(?:\s+[A-Z][\w'-]*)*)/);
+  const suggested = LOCATION_SUGGESTIONS.find((place) => new RegExp(`\\b${place.toLowerCase()}\\b`).test(lowered));
+  const topicText = cleaned.match(
+    /\b(?:about|follow|following|interested in|into|topics?|news on|care about|like)\s*:?\s+(.+)$/i
+  )?.[1];
+  let location = /\b(?:global|worldwide|everywhere|anywhere)\b/.test(lowered) ? "Global" : named?.[1] ?? suggested ?? null;
+  let topics = topicText ? splitTopics(topicText) : [];
+  if (!location && !topics.length && cleaned) {
+    if (existing.location?.trim()) topics = splitTopics(cleaned);
+    else if (cleaned.split(" ").length <= 4 && !cleaned.includes(",")) location = cleaned;
+    else topics = splitTopics(cleaned);
+  }
+  if (location) topics = topics.filter((topic) => topic.toLowerCase() !== location?.toLowerCase());
+  const missing: OnboardingParseMissing[] = [
+    ...(location || existing.location?.trim() ? [] : (["location"] as const)),
+    ...(topics.length || existing.topics?.trim() ? [] : (["topics"] as const)),
+  ];
+  return { location, topics, missing, followupQuestion: null };
+}
+
+function ask(state: OnboardingState, step: OnboardingStep, text = STEP_PROMPTS[step]): OnboardingState {
+  return { ...state, step, parsing: false, error: null, question: nextQuestion(state, text) };
+}
+
+function nextQuestion(state: OnboardingState, text: string) {
+  return { id: state.question.id + 1, text };
+}
+
+function suggestionPrompt(step: OnboardingStep) {
+  if (step === "location") {
+    return `No worries. Pick a region like ${LOCATION_SUGGESTIONS.slice(0, 4).join(", ")}, or say "global".`;
+  }
+  return `Totally fine. A few ideas: ${TOPIC_SUGGESTIONS.slice(0, 5).join(", ")}. Which ones sound good?`;
+}
+
+function normalizeTopics(topics: OnboardingParseResult["topics"]) {
+  if (Array.isArray(topics)) {
+    return topics
+      .filter((topic): topic is string => typeof topic === "string")
+      .map((topic) => topic.trim())
+      .filter(Boolean)
+      .join(", ");
+  }
+  return typeof topics === "string" ? topics.trim() : "";
+}
+
+function splitTopics(text: string) {
+  return text
+    .split(/,|\/|\band\b|\bor\b/i)
+    .map((topic) => topic.trim().replace(/^(?:the|some|more)\s+/i, ""))
+    .filter(Boolean);
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { BRIEF_SCHEMA_VERSION, validateBrief } from "./briefSchema";
+import { parseNewsText } from "./news";
+import { MAX_STORY_COUNT, normalizePreferences, STORY_COUNT_RANGE } from "./preferences";
+
+const tooMany = MAX_STORY_COUNT + 5;
+
+describe("MAX_STORY_COUNT", () => {
+  it("caps the story count a reader can ask for", () => {
+    expect(STORY_COUNT_RANGE.max).toBe(MAX_STORY_COUNT);
+    expect(normalizePreferences({ storyCount: tooMany }).storyCount).toBe(MAX_STORY_COUNT);
+    expect(normalizePreferences({ storyCount: MAX_STORY_COUNT }).storyCount).toBe(MAX_STORY_COUNT);
+  });
+
+  it("caps the stories kept from a JSON brief", () => {
+    const items = Array.from({ length: tooMany }, (_, index) => ({
+      title: `Story ${index + 1}`,
+      summary: "Details.",
+      category: "Local",
+    }));
+    const { brief } = validateBrief({ schemaVersion: BRIEF_SCHEMA_VERSION, summary: "Busy day.", items });
+    expect(brief?.items).toHaveLength(MAX_STORY_COUNT);
+  });
+
+  it("caps the stories kept from a markdown brief", () => {
+    const bullets = Array.from({ length: tooMany }, (_, index) => `- [Story ${index + 1}](https://example.com/${index}) - Details`);
+    expect(parseNewsText(["Busy day.", ...bullets].join("\n")).items).toHaveLength(MAX_STORY_COUNT);
+  });
+});
@@ -0,0 +1,200 @@
+import { canonicalizeUrl } from "./dedupe";
+import type { AppendLog, NewsItem, ProfilePreferences, WeightedCategory } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEIGHTED_CATEGORIES: WeightedCategory[] = ["Local", "International", "Interest", "Social"];
+export const MAX_CATEGORY_WEIGHT = 3;
+export const CATEGORY_WEIGHT_LABELS = ["Off", "Some", "More", "Most"];
+/** Most stories an edition holds, whichever way the brief was parsed. */
+export const MAX_STORY_COUNT = 30;
+export const STORY_COUNT_RANGE = { min: 5, max: MAX_STORY_COUNT };
+export const RECENCY_DAYS_RANGE = { min: 1, max: 30 };
+
+export const DEFAULT_PREFERENCES: ProfilePreferences = {
+  excludedTopics: [],
+  blockedDomains: [],
+  preferredDomains: [],
+  language: "",
+  recencyDays: 7,
+  storyCount: 15,
+  categoryWeights: { Local: 1, International: 1, Interest: 1, Social: 1 },
+};
+
+const CATEGORY_COVERAGE: Record<WeightedCategory, string> = {
+  Local: "Local news (based on location)",
+  International: "International news",
+  Interest: "User interest topics",
+  Social: "Social drama and trending chatter (especially from social media)",
+};
+
+/** Fills in defaults and clamps every field, for preferences read from storage or a request body. */
+export function normalizePreferences(value: unknown): ProfilePreferences {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, any>;
+  const rawWeights = (raw.categoryWeights && typeof raw.categoryWeights === "object" ? raw.categoryWeights : {}) as Record<
+    string,
+    unknown
+  >;
+  const categoryWeights = Object.fromEntries(
+    WEIGHTED_CATEGORIES.map((category) => [
+      category,
+      clamp(rawWeights[category], 0, MAX_CATEGORY_WEIGHT, DEFAULT_PREFERENCES.categoryWeights[category]),
+    ])
+  ) as Record<WeightedCategory, number>;
+  return {
+    excludedTopics: toList(raw.excludedTopics),
+    blockedDomains: toList(raw.blockedDomains).map(normalizeDomain).filter(Boolean),
+    preferredDomains: toList(raw.preferredDomains).map(normalizeDomain).filter(Boolean),
+    language: typeof raw.language === "string" ? raw.language.trim() : "",
+    recencyDays: clamp(raw.recencyDays, RECENCY_DAYS_RANGE.min, RECENCY_DAYS_RANGE.max, DEFAULT_PREFERENCES.recencyDays),
+    storyCount: clamp(raw.storyCount, STORY_COUNT_RANGE.min, STORY_COUNT_RANGE.max, DEFAULT_PREFERENCES.storyCount),
+    // Every category switched off would leave nothing to ask for.
+    categoryWeights: Object.values(categoryWeights).some(Boolean) ? categoryWeights : DEFAULT_PREFERENCES.categoryWeights,
+  };
+}
+
+/** Splits comma- or newline-separated input into trimmed, unique entries. */
+export function parseList(text: string) {
+  return Array.from(
+    new Set(
+      text
+        .split(/[,\n]/)
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** "https://www.Example.com/path" -> "example.com". */
+export function normalizeDomain(raw: string) {
+  return raw
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/[/?#:].*$/, "")
+    .replace(/^www\./, "");
+}
+
+/** Splits storyCount across the weighted categories by largest remainder, so the shares always add up. */
+export function categoryTargets(preferences: ProfilePreferences) {
+  const total = WEIGHTED_CATEGORIES.reduce((sum, category) => sum + preferences.categoryWeights[category], 0);
+  const shares = WEIGHTED_CATEGORIES.map((category) => {
+    const exact = total ? (preferences.storyCount * preferences.categoryWeights[category]) / total : 0;
+    return { category, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let left = preferences.storyCount - shares.reduce((sum, share) => sum + share.count, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((share) => {
+      if (left > 0 && share.remainder > 0) {
+        share.count += 1;
+        left -= 1;
+      }
+    });
+  return Object.fromEntries(shares.map((share) => [share.category, share.count])) as Record<WeightedCategory, number>;
+}
+
+/** Prompt lines for the coverage section of the research prompt. */
+export function preferenceConstraints(preferences: ProfilePreferences) {
+  const targets = categoryTargets(preferences);
+  const lines = WEIGHTED_CATEGORIES.filter((category) => targets[category] > 0).map(
+    (category) => `${CATEGORY_COVERAGE[category]}: about ${targets[category]} stor${targets[category] === 1 ? "y" : "ies"}`
+  );
+  const skipped = WEIGHTED_CATEGORIES.filter((category) => !preferences.categoryWeights[category]);
+  if (skipped.length) lines.push(`No ${skipped.join(" or ")} stories`);
+  lines.push(`Only include items from the past ${preferences.recencyDays} day${preferences.recencyDays === 1 ? "" : "s"}`);
+  if (preferences.excludedTopics.length) {
+    lines.push(`Leave out anything about: ${preferences.excludedTopics.join(", ")}`);
+  }
+  if (preferences.blockedDomains.length) {
+    lines.push(`Never use these sites as sources: ${preferences.blockedDomains.join(", ")}`);
+  }
+  if (preferences.preferredDomains.length) {
+    lines.push(`When they cover a story, prefer these sites: ${preferences.preferredDomains.join(", ")}`);
+  }
+  if (preferences.language) lines.push(`Write every title and summary in ${preferences.language}`);
+  return lines;
+}
+
+/**
+ * Checks parsed stories against the reader's preferences, since the model does not always follow
+ * the prompt: drops blocked sources, excluded topics, switched-off categories and stale stories,
+ * then trims to storyCount. Language is only asked for, not checked.
+ */
+export function applyPreferences(items: NewsItem[], preferences: ProfilePreferences, appendLog: AppendLog, now = Date.now()) {
+  const excluded = preferences.excludedTopics.map(topicPattern);
+  const oldest = now - (preferences.recencyDays + 1) * DAY_MS;
+  const removed = { blocked: 0, excluded: 0, category: 0, stale: 0 };
+  const kept = items.filter((item) => {
+    if (storyHosts(item).some((host) => matchesDomain(host, preferences.blockedDomains))) {
+      removed.blocked += 1;
+      return false;
+    }
+    const text = [item.title, item.summary, ...(item.tags ?? [])].join(" ");
+    if (excluded.some((pattern) => pattern.test(text))) {
+      removed.excluded += 1;
+      return false;
+    }
+    if (item.category !== "Other" && !preferences.categoryWeights[item.category]) {
+      removed.category += 1;
+      return false;
+    }
+    const published = item.publishedAt ? Date.parse(item.publishedAt) : Number.NaN;
+    if (!Number.isNaN(published) && published < oldest) {
+      removed.stale += 1;
+      return false;
+    }
+    return true;
+  });
+  const trimmed = Math.max(0, kept.length - preferences.storyCount);
+  const reasons = [
+    removed.blocked && `${removed.blocked} from blocked sites`,
+    removed.excluded && `${removed.excluded} on excluded topics`,
+    removed.category && `${removed.category} in switched-off categories`,
+    removed.stale && `${removed.stale} older than ${preferences.recencyDays} days`,
+    trimmed && `${trimmed} over the ${preferences.storyCount}-story limit`,
+  ].filter(Boolean);
+  if (reasons.length) appendLog(`Dropped ${reasons.join(", ")}.`, "preferences");
+  const result = kept.slice(0, preferences.storyCount);
+  if (preferences.preferredDomains.length) {
+    const preferred = result.filter((item) =>
+      storyHosts(item).some((host) => matchesDomain(host, preferences.preferredDomains))
+    ).length;
+    appendLog(`${preferred} of ${result.length} stories cite a preferred site.`, "preferences");
+  }
+  return result;
+}
+
+/** Hostnames of the story's link and of every merged source. */
+export function storyHosts(item: NewsItem) {
+  return [item.url, ...(item.sources ?? []).map((source) => source.url)]
+    .map((url) => {
+      try {
+        return url ? new URL(canonicalizeUrl(url) ?? url).hostname : "";
+      } catch {
+        return "";
+      }
+    })
+    .filter(Boolean);
+}
+
+function matchesDomain(host: string, domains: string[]) {
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/** Case-insensitive match of a topic as whole words. */
+export function topicPattern(topic: string) {
+  const escaped = topic.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "iu");
+}
+
+function toList(value: unknown) {
+  if (typeof value === "string") return parseList(value);
+  return Array.isArray(value) ? parseList(value.filter((entry) => typeof entry === "string").join(",")) : [];
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number) {
+  const number = typeof value === "number" ? value : Number(value);
+  if (value === undefined || value === null || value === "" || !Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(number)));
+}
@@ -0,0 +1,159 @@
+import {
+  CATEGORY_WEIGHT_LABELS,
+  MAX_CATEGORY_WEIGHT,
+  normalizeDomain,
+  normalizePreferences,
+  parseList,
+  RECENCY_DAYS_RANGE,
+  STORY_COUNT_RANGE,
+  WEIGHTED_CATEGORIES,
+} from "./preferences";
+import type { NamedProfile, ProfileChange, ProfileEdit, ReaderProfile, WeightedCategory } from "./types";
+
+const MAX_CHANGES = 50;
+
+/**
+ * Checks an extracted edit against the profile it is for: malformed fields and changes that would
+ * do nothing are dropped, numbers are clamped, and names are matched to the profile's own spelling.
+ */
+export function normalizeProfileEdit(value: unknown, profile: ReaderProfile): ProfileEdit {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, any>;
+  const preferences = normalizePreferences(profile.preferences);
+  const topics = parseList(profile.topics);
+  const strings = (list: unknown) =>
+    Array.isArray(list) ? parseList(list.filter((entry): entry is string => typeof entry === "string").join(",")) : [];
+  const domains = (list: unknown) => Array.from(new Set(strings(list).map(normalizeDomain).filter(Boolean)));
+
+  const addTopics = strings(raw.addTopics).filter((topic) => !findIn(topics, topic));
+  const removeTopics = strings(raw.removeTopics);
+  const language = typeof raw.language === "string" ? raw.language.trim() : null;
+  const location = typeof raw.location === "string" ? raw.location.trim() : "";
+  const number = (field: unknown, range: { min: number; max: number }, current: number) => {
+    if (typeof field !== "number" || !Number.isFinite(field)) return undefined;
+    const clamped = Math.min(range.max, Math.max(range.min, Math.round(field)));
+    return clamped === current ? undefined : clamped;
+  };
+  const rawWeights = (raw.categoryWeights && typeof raw.categoryWeights === "object" ? raw.categoryWeights : {}) as Record<
+    string,
+    unknown
+  >;
+  const categoryWeights = Object.fromEntries(
+    WEIGHTED_CATEGORIES.map((category) => [
+      category,
+      number(rawWeights[category], { min: 0, max: MAX_CATEGORY_WEIGHT }, preferences.categoryWeights[category]),
+    ]).filter(([, weight]) => weight !== undefined)
+  ) as Partial<Record<WeightedCategory, number>>;
+
+  return compactEdit({
+    location: location && location.toLowerCase() !== profile.location.trim().toLowerCase() ? location : undefined,
+    addTopics,
+    removeTopics: removeTopics.map((topic) => findIn(topics, topic)).filter((topic): topic is string => !!topic),
+    // Dropping a topic that is not followed can only mean keeping it out of the paper altogether.
+    excludeTopics: unique([...strings(raw.excludeTopics), ...removeTopics.filter((topic) => !findIn(topics, topic))]).filter(
+      (topic) => !findIn(preferences.excludedTopics, topic)
+    ),
+    // Following a topic that is left out lets it back in.
+    includeTopics: unique(
+      [...strings(raw.includeTopics), ...addTopics]
+        .map((topic) => findIn(preferences.excludedTopics, topic))
+        .filter((topic): topic is string => !!topic)
+    ),
+    blockDomains: domains(raw.blockDomains).filter((domain) => !preferences.blockedDomains.includes(domain)),
+    unblockDomains: domains(raw.unblockDomains).filter((domain) => preferences.blockedDomains.includes(domain)),
+    preferDomains: domains(raw.preferDomains).filter((domain) => !preferences.preferredDomains.includes(domain)),
+    unpreferDomains: domains(raw.unpreferDomains).filter((domain) => preferences.preferredDomains.includes(domain)),
+    language: language !== null && language.toLowerCase() !== preferences.language.toLowerCase() ? language : undefined,
+    storyCount: number(raw.storyCount, STORY_COUNT_RANGE, preferences.storyCount),
+    recencyDays: number(raw.recencyDays, RECENCY_DAYS_RANGE, preferences.recencyDays),
+    categoryWeights,
+  });
+}
+
+export function isEmptyEdit(edit: ProfileEdit) {
+  return Object.keys(compactEdit(edit)).length === 0;
+}
+
+/** The profile with the edit applied; topics and preferences come out in their usual form. */
+export function applyProfileEdit<T extends ReaderProfile>(profile: T, edit: ProfileEdit): T {
+  const preferences = normalizePreferences(profile.preferences);
+  const update = (list: string[], remove: string[] = [], add: string[] = []) => [
+    ...list.filter((entry) => !findIn(remove, entry)),
+    ...add.filter((entry) => !findIn(list, entry) || findIn(remove, entry)),
+  ];
+  return {
+    ...profile,
+    location: edit.location ?? profile.location,
+    topics: update(parseList(profile.topics), edit.removeTopics, edit.addTopics).join(", "),
+    preferences: normalizePreferences({
+      ...preferences,
+      excludedTopics: update(preferences.excludedTopics, edit.includeTopics, edit.excludeTopics),
+      blockedDomains: update(preferences.blockedDomains, edit.unblockDomains, edit.blockDomains),
+      preferredDomains: update(preferences.preferredDomains, edit.unpreferDomains, edit.preferDomains),
+      language: edit.language ?? preferences.language,
+      storyCount: edit.storyCount ?? preferences.storyCount,
+      recencyDays: edit.recencyDays ?? preferences.recencyDays,
+      categoryWeights: { ...preferences.categoryWeights, ...edit.categoryWeights },
+    }),
+  };
+}
+
+/** The edit applied, with the request recorded at the head of the profile's change history. */
+export function recordProfileChange(profile: NamedProfile, request: string, edit: ProfileEdit, at = new Date()) {
+  const change: ProfileChange = { at: at.toISOString(), request, edit };
+  return { ...applyProfileEdit(profile, edit), changes: [change, ...(profile.changes ?? [])].slice(0, MAX_CHANGES) };
+}
+
+/** One line per change, for confirming an edit and listing past ones. */
+export function describeProfileEdit(edit: ProfileEdit) {
+  const list = (values?: string[]) => (values?.length ? values.join(", ") : "");
+  return [
+    edit.location !== undefined && `Focus on ${edit.location || "global news"}`,
+    list(edit.addTopics) && `Follow ${list(edit.addTopics)}`,
+    list(edit.removeTopics) && `Stop following ${list(edit.removeTopics)}`,
+    list(edit.excludeTopics) && `Leave out ${list(edit.excludeTopics)}`,
+    list(edit.includeTopics) && `Stop leaving out ${list(edit.includeTopics)}`,
+    list(edit.blockDomains) && `Block ${list(edit.blockDomains)}`,
+    list(edit.unblockDomains) && `Unblock ${list(edit.unblockDomains)}`,
+    list(edit.preferDomains) && `Prefer ${list(edit.preferDomains)}`,
+    list(edit.unpreferDomains) && `Stop preferring ${list(edit.unpreferDomains)}`,
+    edit.language !== undefined && (edit.language ? `Write stories in ${edit.language}` : "Any language"),
+    edit.storyCount !== undefined && `${edit.storyCount} stories per edition`,
+    edit.recencyDays !== undefined && `Stories from the past ${edit.recencyDays} day${edit.recencyDays === 1 ? "" : "s"}`,
+    ...Object.entries(edit.categoryWeights ?? {}).map(
+      ([category, weight]) => `${category}: ${CATEGORY_WEIGHT_LABELS[weight ?? 0] ?? weight}`
+    ),
+  ].filter((line): line is string => !!line);
+}
+
+/** Drops malformed entries, for change history read from storage. */
+export function normalizeProfileChanges(value: unknown): ProfileChange[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry) => typeof entry?.at === "string" && typeof entry?.request === "string")
+    .slice(0, MAX_CHANGES)
+    .map((entry) => ({
+      at: entry.at,
+      request: entry.request,
+      edit: compactEdit(entry.edit && typeof entry.edit === "object" ? entry.edit : {}),
+    }));
+}
+
+/** Drops unset fields and empty lists, so an edit that changes nothing has no keys. */
+function compactEdit(edit: ProfileEdit): ProfileEdit {
+  return Object.fromEntries(
+    Object.entries(edit).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : value && typeof value === "object" ? Object.keys(value).length > 0 : value !== undefined
+    )
+  ) as ProfileEdit;
+}
+
+/** The first of every entry findIn treats as the same. */
+function unique(list: string[]) {
+  return list.filter((entry, index) => list.findIndex((other) => findIn([other], entry)) === index);
+}
+
+/** The entry of list that names the same thing, ignoring case and a plural "s"; null when there is none. */
+function findIn(list: string[], value: string) {
+  const key = (entry: string) => entry.trim().toLowerCase().replace(/s$/, "");
+  return list.find((entry) => key(entry) === key(value)) ?? null;
+}
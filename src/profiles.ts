@@ -0,0 +1,103 @@
+import { normalizeFeedback } from "./interests";
+import { normalizePreferences } from "./preferences";
+import { normalizeProfileChanges } from "./profileEdits";
+import type { NamedProfile, ReaderProfile } from "./types";
+
+const PROFILES_STORAGE_KEY = "manus.reader.profiles";
+const LEGACY_PROFILE_STORAGE_KEY = "manus.reader.profile";
+const LEGACY_PROFILE_NAME = "My briefing";
+
+export type ProfileStore = {
+  activeId: string | null;
+  profiles: NamedProfile[];
+};
+
+const EMPTY_STORE: ProfileStore = { activeId: null, profiles: [] };
+
+/** Loads every saved profile, migrating the single profile older versions kept. */
+export function loadProfiles(): ProfileStore {
+  if (typeof window === "undefined") return EMPTY_STORE;
+  const raw = window.localStorage.getItem(PROFILES_STORAGE_KEY);
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      const profiles: NamedProfile[] = (Array.isArray(parsed?.profiles) ? parsed.profiles : [])
+        .filter((entry: any) => typeof entry?.id === "string" && typeof entry?.topics === "string")
+        .map((entry: any) => ({
+          id: entry.id,
+          name: typeof entry.name === "string" && entry.name.trim() ? entry.name : defaultProfileName(entry),
+          location: entry.location || "",
+          topics: entry.topics,
+          preferences: normalizePreferences(entry.preferences),
+          feedback: normalizeFeedback(entry.feedback),
+          changes: normalizeProfileChanges(entry.changes),
+        }));
+      const activeId = profiles.some((entry) => entry.id === parsed?.activeId) ? parsed.activeId : profiles[0]?.id ?? null;
+      return { activeId, profiles };
+    } catch {
+      return EMPTY_STORE;
+    }
+  }
+  const legacy = loadLegacyProfile();
+  if (!legacy) return EMPTY_STORE;
+  const profile = createProfile(legacy, LEGACY_PROFILE_NAME);
+  const store = { activeId: profile.id, profiles: [profile] };
+  saveProfiles(store);
+  window.localStorage.removeItem(LEGACY_PROFILE_STORAGE_KEY);
+  return store;
+}
+
+export function saveProfiles(store: ProfileStore) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(store));
+}
+
+export function createProfile(profile: ReaderProfile, name?: string): NamedProfile {
+  return {
+    id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: name?.trim() || defaultProfileName(profile),
+    location: profile.location,
+    topics: profile.topics,
+    preferences: normalizePreferences(profile.preferences),
+  };
+}
+
+/** "Location: first topic", used when a profile is saved without a name. */
+export function defaultProfileName(profile: ReaderProfile) {
+  const firstTopic = profile.topics.split(",")[0]?.trim();
+  return [profile.location.trim() || "Global", firstTopic].filter(Boolean).join(": ");
+}
+
+export function activeProfile(store: ProfileStore) {
+  return store.profiles.find((profile) => profile.id === store.activeId) ?? null;
+}
+
+/** Adds the profile, or replaces the saved one with the same id, and makes it active. */
+export function upsertProfile(store: ProfileStore, profile: NamedProfile): ProfileStore {
+  const exists = store.profiles.some((entry) => entry.id === profile.id);
+  return {
+    activeId: profile.id,
+    profiles: exists
+      ? store.profiles.map((entry) => (entry.id === profile.id ? profile : entry))
+      : [...store.profiles, profile],
+  };
+}
+
+export function removeProfile(store: ProfileStore, id: string): ProfileStore {
+  const profiles = store.profiles.filter((profile) => profile.id !== id);
+  return { activeId: store.activeId === id ? profiles[0]?.id ?? null : store.activeId, profiles };
+}
+
+function loadLegacyProfile(): ReaderProfile | null {
+  const raw = window.localStorage.getItem(LEGACY_PROFILE_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.topics === "string") {
+      return { location: parsed.location || "", topics: parsed.topics || "" };
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
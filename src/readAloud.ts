@@ -0,0 +1,134 @@
+import { storyKey } from "./dedupe";
+import { groupSections } from "./sections";
+import type { NewsItem } from "./types";
+
+const DB_NAME = "manus.audio";
+const DB_VERSION = 1;
+const CLIP_STORE = "clips";
+// Narration is a few MB per edition, so only the most recently narrated editions keep theirs.
+const MAX_CACHED_EDITIONS = 5;
+const TTS_PATH = "/eleven-tts";
+
+/** One narrated stretch of the paper: the front summary, or one story. */
+export type Chapter = {
+  id: string;
+  label: string;
+  text: string;
+  /** storyKey of the story this chapter reads; unset for the front summary. */
+  storyKey?: string;
+};
+
+type StoredClip = { key: string; editionId: string; text: string; audio: Blob; createdAt: string };
+
+/** The front summary, then the lead story and every section in front-page order. */
+export function buildChapters(summary: string, items: NewsItem[]): Chapter[] {
+  const front = speechText(summary);
+  const [lead, ...rest] = items;
+  const ordered = lead ? [lead, ...groupSections(rest).flatMap((group) => group.items)] : [];
+  return [
+    ...(front ? [{ id: "front", label: "Front page", text: `Today's briefing. ${front}` }] : []),
+    ...ordered.map((item, index) => ({
+      id: `story-${index}`,
+      label: speechText(item.title),
+      text: `${speechText(item.title)}. ${item.source ? `From ${item.source}. ` : ""}${speechText(item.summary)}`,
+      storyKey: storyKey(item),
+    })),
+  ];
+}
+
+/** Markdown to plain sentences: link text kept, URLs, emphasis and heading marks dropped. */
+export function speechText(markdown: string) {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/https?:\/\/\S+/g, "")
+    .replace(/[*_`#>~]+/g, "")
+    .replace(/^\s*[-+]\s+/gm, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Audio for a chapter: from the archive's cache when this edition was played before, otherwise
+ * generated through /eleven-tts and cached. Without an editionId (an unsaved brief) nothing is cached.
+ */
+export async function loadChapterAudio(editionId: string | null, chapter: Chapter, signal?: AbortSignal) {
+  const key = editionId ? `${editionId}/${chapter.id}` : null;
+  const cached = key ? await readClip(key).catch(() => null) : null;
+  // A story edited since it was narrated is narrated again.
+  if (cached && cached.text === chapter.text) return cached.audio;
+  const response = await fetch(TTS_PATH, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text: chapter.text }),
+    signal,
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data?.error || `Narration failed (HTTP ${response.status})`);
+  }
+  const audio = new Blob([await response.arrayBuffer()], { type: "audio/mpeg" });
+  if (key && editionId) {
+    await writeClip({ key, editionId, text: chapter.text, audio, createdAt: new Date().toISOString() }).catch(() => undefined);
+  }
+  return audio;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openAudioDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CLIP_STORE)) {
+        const store = db.createObjectStore(CLIP_STORE, { keyPath: "key" });
+        store.createIndex("createdAt", "createdAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open the narration cache"));
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Narration cache request failed"));
+  });
+}
+
+async function clipStore(mode: IDBTransactionMode) {
+  const db = await openAudioDb();
+  return db.transaction(CLIP_STORE, mode).objectStore(CLIP_STORE);
+}
+
+async function readClip(key: string) {
+  const store = await clipStore("readonly");
+  return ((await promisify(store.get(key))) as StoredClip | undefined) ?? null;
+}
+
+/** Stores the clip, then drops clips of all but the MAX_CACHED_EDITIONS editions narrated most recently. */
+async function writeClip(clip: StoredClip) {
+  await promisify((await clipStore("readwrite")).put(clip));
+  // Keys only, oldest first, so the audio itself is not read back.
+  const keys = (await promisify((await clipStore("readonly")).index("createdAt").getAllKeys())) as string[];
+  const editionOf = (key: string) => key.slice(0, key.lastIndexOf("/"));
+  const recent: string[] = [];
+  [...keys].reverse().forEach((key) => {
+    if (!recent.includes(editionOf(key))) recent.push(editionOf(key));
+  });
+  const keep = new Set(recent.slice(0, MAX_CACHED_EDITIONS));
+  const expired = keys.filter((key) => !keep.has(editionOf(key)));
+  if (!expired.length) return;
+  const store = await clipStore("readwrite");
+  await Promise.all(expired.map((key) => promisify(store.delete(key))));
+}
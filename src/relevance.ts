@@ -0,0 +1,27 @@
+import { topicPattern } from "./preferences";
+import type { NewsItem, ReaderProfile } from "./types";
+
+/** A one-line "why this matters to you" for a story, built from the reader's profile. */
+export function explainRelevance(story: NewsItem, profile: ReaderProfile) {
+  const text = [story.title, story.summary, ...(story.tags ?? [])].join(" ");
+  const topics = profile.topics
+    .split(",")
+    .map((topic) => topic.trim())
+    .filter(Boolean);
+  const matched = topics.filter((topic) => topicPattern(topic).test(text));
+  const reasons: string[] = [];
+  if (matched.length) reasons.push(`It touches your interest in ${joinList(matched.slice(0, 3))}`);
+  if (story.category === "Local" && profile.location) reasons.push(`it is happening in ${profile.location}`);
+  if (story.category === "Social") reasons.push("it is what people around you are talking about");
+  if ((story.sources?.length ?? 0) > 1) reasons.push(`${story.sources?.length} outlets are covering it`);
+  if (!reasons.length) {
+    return `It is the strongest match for your ${joinList(topics.slice(0, 2)) || "chosen"} briefing today.`;
+  }
+  const sentence = joinList(reasons);
+  return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+}
+
+function joinList(values: string[]) {
+  if (values.length < 2) return values.join("");
+  return `${values.slice(0, -1).join(", ")} and ${values[values.length - 1]}`;
+}
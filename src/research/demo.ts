@@ -0,0 +1,71 @@
+import type { AppendLog, NewsBrief, NewsItem, ReaderProfile } from "../types";
+import type { ResearchBackend } from "./types";
+
+const DEMO_DURATION_MS = 2200;
+
+export function createDemoBackend(): ResearchBackend {
+  const profiles = new Map<string, ReaderProfile>();
+
+  return {
+    id: "demo",
+    label: "Demo",
+    available: true,
+    banner: "Manus disabled or key missing; demo mode.",
+    pollIntervalMs: DEMO_DURATION_MS,
+    maxPollMs: DEMO_DURATION_MS * 4,
+    async create({ profile }, { appendLog, signal }) {
+      const id = `demo-${Date.now()}`;
+      profiles.set(id, profile);
+      runDemoTrace(appendLog, signal);
+      return { id, backend: "demo", startedAt: Date.now() };
+    },
+    async progress(task) {
+      const done = Date.now() - task.startedAt >= DEMO_DURATION_MS;
+      return { status: done ? "completed" : "running" };
+    },
+    async result(task, { appendLog }) {
+      const profile = profiles.get(task.id);
+      profiles.delete(task.id);
+      if (!profile) throw new Error(`Unknown demo task ${task.id}`);
+      appendLog("Generated demo brief locally.", "demo");
+      return buildDemoBrief(profile);
+    },
+    async cancel(task) {
+      profiles.delete(task.id);
+    },
+  };
+}
+
+export function buildDemoBrief(profile: ReaderProfile): NewsBrief {
+  const topics = profile.topics
+    .split(",")
+    .map((topic) => topic.trim())
+    .filter(Boolean);
+  const summary = `Tracking ${topics.slice(0, 3).join(", ") || "your topics"} with a social-first lens. Local context: ${
+    profile.location || "global"
+  }.`;
+  const items: NewsItem[] = topics.slice(0, 6).map((topic, index) => ({
+    title: `${topic} watch`,
+    summary: `Early chatter highlights emerging themes and differing opinions in ${topic}.`,
+    url: index === 0 ? "https://news.ycombinator.com" : undefined,
+    category: "Interest",
+    tags: [topic],
+  }));
+  return { summary, items };
+}
+
+export function runDemoTrace(appendLog: AppendLog, signal?: AbortSignal) {
+  const steps = [
+    { delay: 0, meta: "demo", message: "Routing to demo newsroom pipeline." },
+    { delay: 400, meta: "agent", message: "Drafting fast search queries for local, international, and interest topics." },
+    { delay: 800, meta: "web", message: "Scanning fast sources (last 7 days) for headlines." },
+    { delay: 1200, meta: "social", message: "Sampling trending social chatter for drama and sentiment." },
+    { delay: 1600, meta: "editor", message: "Ranking stories by relevance and freshness." },
+    { delay: 2000, meta: "layout", message: "Composing front page and briefs." },
+  ];
+  steps.forEach((step) => {
+    setTimeout(() => {
+      if (!signal?.aborted) appendLog(step.message, step.meta);
+    }, step.delay);
+  });
+}
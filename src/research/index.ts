@@ -0,0 +1,121 @@
+import type { NewsBrief } from "../types";
+import { abortError, throwIfAborted } from "../utils";
+import { createDemoBackend } from "./demo";
+import { createManusBackend, loadManusConfig } from "./manus";
+import { createOpenAiCompatBackend, loadOpenAiCompatConfig } from "./openai";
+import type {
+  ResearchBackend,
+  ResearchBackendId,
+  ResearchContext,
+  ResearchProgress,
+  ResearchRequest,
+} from "./types";
+
+export type { ResearchBackend, ResearchBackendId } from "./types";
+
+export type BackendAvailability = Partial<Record<ResearchBackendId, boolean>>;
+
+export function createResearchBackends(): ResearchBackend[] {
+  return [
+    createManusBackend(loadManusConfig()),
+    createOpenAiCompatBackend(loadOpenAiCompatConfig()),
+    createDemoBackend(),
+  ];
+}
+
+export function isBackendAvailable(backend: ResearchBackend, availability: BackendAvailability) {
+  return availability[backend.id] ?? backend.available;
+}
+
+export function pickDefaultBackend(
+  backends: ResearchBackend[],
+  availability: BackendAvailability = {}
+): ResearchBackendId {
+  const preferred = import.meta.env.VITE_RESEARCH_BACKEND;
+  const usable = backends.filter((backend) => isBackendAvailable(backend, availability));
+  const explicit = usable.find((backend) => backend.id === preferred);
+  if (explicit) return explicit.id;
+  return usable[0]?.id ?? "demo";
+}
+
+/** Resolves every backend's probe; backends without one keep their static availability. */
+export async function probeBackends(backends: ResearchBackend[]): Promise<BackendAvailability> {
+  const entries = await Promise.all(
+    backends.map(async (backend) => [backend.id, backend.probe ? await backend.probe() : backend.available] as const)
+  );
+  return Object.fromEntries(entries);
+}
+
+export async function runResearch(
+  backend: ResearchBackend,
+  request: ResearchRequest,
+  context: ResearchContext,
+  onProgress?: (partial: NewsBrief) => void
+): Promise<NewsBrief> {
+  throwIfAborted(context.signal);
+  const task = await backend.create(request, context);
+  if (context.signal?.aborted) {
+    // Stopped while the task was being created; it exists remotely now, so it still needs cancelling.
+    context.appendLog(`Stopping ${backend.label} task ${task.id}...`, "cancel");
+    await backend.cancel(task, context).catch(() => undefined);
+    throw abortError();
+  }
+  let pushed: ResearchProgress | null = null;
+  let wake: (() => void) | null = null;
+  const subscription =
+    backend.subscribe?.(task, context, (progress) => {
+      if (progress.brief && onProgress) onProgress(progress.brief);
+      if (progress.status === "completed" || progress.status === "failed") {
+        pushed = { status: progress.status, error: progress.error };
+        wake?.();
+      }
+    }) ?? null;
+
+  try {
+    while (Date.now() - task.startedAt < backend.maxPollMs) {
+      const interval =
+        subscription?.live() && backend.fallbackPollIntervalMs
+          ? backend.fallbackPollIntervalMs
+          : backend.pollIntervalMs;
+      if (!pushed) {
+        await new Promise<void>((resolve, reject) => {
+          const onAbort = () => {
+            window.clearTimeout(timer);
+            reject(abortError());
+          };
+          const done = () => {
+            window.clearTimeout(timer);
+            context.signal?.removeEventListener("abort", onAbort);
+            resolve();
+          };
+          const timer = window.setTimeout(done, interval);
+          wake = done;
+          if (context.signal?.aborted) onAbort();
+          else context.signal?.addEventListener("abort", onAbort, { once: true });
+        });
+        wake = null;
+      }
+      throwIfAborted(context.signal);
+      const consumed = pushed;
+      const progress: ResearchProgress = consumed ?? (await backend.progress(task, context));
+      // A push that arrived during the poll is kept for the next round.
+      if (pushed === consumed) pushed = null;
+      if (progress.brief && onProgress) onProgress(progress.brief);
+      if (progress.status === "completed") {
+        return await backend.result(task, context);
+      }
+      if (progress.status === "failed") {
+        throw new Error(progress.error || `${backend.label} task failed`);
+      }
+    }
+    throw new Error(`${backend.label} task polling timed out`);
+  } catch (error) {
+    if (context.signal?.aborted) {
+      context.appendLog(`Stopping ${backend.label} task ${task.id}...`, "cancel");
+      await backend.cancel(task, context).catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    subscription?.close();
+  }
+}
@@ -0,0 +1,216 @@
+import { buildNewsPrompt, parseBrief, RESEARCH_SYSTEM_PROMPT } from "../news";
+import type { AppendLog } from "../types";
+import { extractManusText, fetchManusOutputFile } from "./manusFiles";
+import type { ResearchBackend, ResearchProgress } from "./types";
+
+const MANUS_API_BASE = "/manus-api";
+const MANUS_STATUS_PATH = "/manus-status";
+const DEFAULT_MANUS_TASKS = {
+  create: "/v1/tasks",
+  get: (id: string) => `/v1/tasks/${id}`,
+};
+const DEFAULT_MANUS_AGENT = "manus-1.6";
+const DEFAULT_MANUS_POLL_INTERVAL = 2000;
+const DEFAULT_MANUS_FALLBACK_POLL_INTERVAL = 15000;
+const DEFAULT_MANUS_MAX_POLL_MS = 10 * 60 * 1000; // 10 minutes
+const MANUS_EVENTS_PATH = "/manus-events";
+
+export type ManusConfig = ReturnType<typeof loadManusConfig>;
+
+/** The API key stays on the server; the browser talks to its Manus proxy and only learns whether it is configured. */
+export function loadManusConfig() {
+  return {
+    base: MANUS_API_BASE,
+    statusPath: MANUS_STATUS_PATH,
+    enabled: true,
+    agentProfile: DEFAULT_MANUS_AGENT,
+    systemPrompt: RESEARCH_SYSTEM_PROMPT,
+    taskPaths: {
+      create: DEFAULT_MANUS_TASKS.create,
+      get: DEFAULT_MANUS_TASKS.get(":id"),
+    },
+    pollIntervalMs: DEFAULT_MANUS_POLL_INTERVAL,
+    fallbackPollIntervalMs: DEFAULT_MANUS_FALLBACK_POLL_INTERVAL,
+    maxPollMs: DEFAULT_MANUS_MAX_POLL_MS,
+    eventsPath: MANUS_EVENTS_PATH,
+  };
+}
+
+export function createManusBackend(manusConfig: ManusConfig): ResearchBackend {
+  const latest = new Map<string, any>();
+
+  return {
+    id: "manus",
+    label: "Manus",
+    available: false,
+    banner: `Manus enabled (server proxy ${manusConfig.base}). Using Manus system prompt tailored for social browsing.`,
+    pollIntervalMs: manusConfig.pollIntervalMs,
+    fallbackPollIntervalMs: manusConfig.fallbackPollIntervalMs,
+    maxPollMs: manusConfig.maxPollMs,
+    async probe() {
+      if (!manusConfig.enabled) return false;
+      try {
+        const res = await fetch(manusConfig.statusPath);
+        if (!res.ok) return false;
+        const data = await res.json();
+        return !!data?.available;
+      } catch {
+        return false;
+      }
+    },
+    async create({ profile }, { appendLog, signal }) {
+      const payload = {
+        prompt: `${manusConfig.systemPrompt}\n\n${buildNewsPrompt(profile)}`,
+        agentProfile: manusConfig.agentProfile,
+        taskMode: "agent",
+        hideInTaskList: true,
+      };
+
+      appendLog("Creating Manus task...", "manus");
+      const createRes = await fetch(`${manusConfig.base}${manusConfig.taskPaths.create}`, {
+        method: "POST",
+        headers: manusHeaders(),
+        body: JSON.stringify(payload),
+        signal,
+      });
+      if (!createRes.ok) throw new Error(`Create task failed: HTTP ${createRes.status}`);
+      const createData = await createRes.json();
+      const taskId = createData.task_id || createData.taskId || createData.id;
+      if (!taskId) throw new Error("Create task succeeded but no task id returned");
+
+      appendLog(`Task created: ${taskId}. Waiting for progress...`, "manus");
+      return { id: taskId, backend: "manus", startedAt: Date.now() };
+    },
+    async progress(task, { appendLog, signal }) {
+      const res = await fetch(taskUrl(manusConfig, task.id), {
+        method: "GET",
+        headers: manusHeaders(),
+        signal,
+      });
+      if (!res.ok) {
+        appendLog(`Poll failed (HTTP ${res.status}); continuing`, "manus");
+        return { status: "running" };
+      }
+      const data = await res.json();
+      latest.set(task.id, data);
+      if (data.status && data.status !== "running" && data.status !== "pending") {
+        appendLog(`Task status: ${data.status}`, "manus");
+      }
+      if (data.status === "completed") {
+        appendLog("Task completed.", "manus");
+        return { status: "completed" };
+      }
+      if (data.status === "failed") {
+        return { status: "failed", error: data.error || "Task failed" };
+      }
+      return { status: "running", brief: parseBrief(extractManusText(data)) };
+    },
+    async result(task, { appendLog, signal }) {
+      let data = latest.get(task.id);
+      latest.delete(task.id);
+      if (data?.status !== "completed") {
+        // Completion arrived over the event stream before any poll saw it.
+        const res = await fetch(taskUrl(manusConfig, task.id), {
+          method: "GET",
+          headers: manusHeaders(),
+          signal,
+        });
+        if (!res.ok) throw new Error(`Fetch task failed: HTTP ${res.status}`);
+        data = await res.json();
+      }
+      const messageText = extractManusText(data);
+      const fileText = await fetchManusOutputFile(data, messageText, appendLog, signal);
+      const parsed = parseBrief(fileText || messageText);
+      appendLog(`Parsed brief as ${parsed.format} (${parsed.note}).`, "parser");
+      return parsed;
+    },
+    async cancel(task, { appendLog }) {
+      latest.delete(task.id);
+      const res = await fetch(taskUrl(manusConfig, task.id), {
+        method: "DELETE",
+        headers: manusHeaders(),
+      }).catch(() => null);
+      if (!res?.ok) {
+        appendLog(`Could not stop Manus task ${task.id}; abandoning it.`, "manus");
+        return;
+      }
+      appendLog(`Manus task ${task.id} stopped.`, "manus");
+    },
+    subscribe(task, { appendLog }, onUpdate) {
+      if (typeof EventSource === "undefined") return null;
+      const source = new EventSource(`${manusConfig.eventsPath}?task=${encodeURIComponent(task.id)}`);
+      let webhooks = false;
+      let announced = false;
+      source.onmessage = (event) => {
+        let data: ManusEvent;
+        try {
+          data = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        if (data.type === "ready") {
+          webhooks = !!data.webhooks;
+          if (!announced) {
+            announced = true;
+            appendLog(
+              webhooks
+                ? "Listening for Manus task events; polling slowed to a fallback."
+                : "Manus webhooks not configured on the server; polling only.",
+              "manus"
+            );
+          }
+          return;
+        }
+        const progress = toProgress(data, appendLog);
+        if (progress) onUpdate(progress);
+      };
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          webhooks = false;
+          appendLog("Manus event stream unavailable; falling back to polling.", "manus");
+        }
+      };
+      return {
+        live: () => webhooks && source.readyState === EventSource.OPEN,
+        close: () => source.close(),
+      };
+    },
+  };
+}
+
+type ManusEvent = {
+  type: string;
+  taskId?: string;
+  webhooks?: boolean;
+  message?: string;
+  stopReason?: string;
+};
+
+function toProgress(event: ManusEvent, appendLog: AppendLog): ResearchProgress | null {
+  if (event.type === "task_progress") {
+    if (event.message) appendLog(`Plan update: ${event.message}`, "manus");
+    return { status: "running" };
+  }
+  if (event.type !== "task_stopped") return null;
+  const brief = event.message ? parseBrief(event.message) : undefined;
+  if (event.stopReason === "finish") {
+    appendLog("Task completed (pushed).", "manus");
+    return { status: "completed", brief };
+  }
+  appendLog(`Task stopped (${event.stopReason || "unknown reason"}); waiting on poll.`, "manus");
+  return { status: "running", brief };
+}
+
+function manusHeaders() {
+  return {
+    "Content-Type": "application/json",
+  };
+}
+
+function taskUrl(manusConfig: ManusConfig, taskId: string) {
+  return `${manusConfig.base}${resolveTaskGetPath(manusConfig.taskPaths.get, taskId)}`;
+}
+
+function resolveTaskGetPath(template: string, taskId: string) {
+  return template.replace(":id", taskId);
+}
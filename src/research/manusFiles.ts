@@ -0,0 +1,158 @@
+import { BRIEF_SCHEMA_VERSION } from "../briefSchema";
+import type { AppendLog } from "../types";
+import { isAbortError } from "../utils";
+
+const MANUS_FILE_PATH = "/manus-file";
+// Earlier kinds win when a task attaches several files.
+const ATTACHMENT_KINDS = ["json", "markdown", "csv", "text"] as const;
+
+export type ManusAttachmentKind = (typeof ATTACHMENT_KINDS)[number];
+
+export type ManusAttachment = {
+  url: string;
+  name: string;
+  kind: ManusAttachmentKind;
+};
+
+/** Picks the most structured file attached to a Manus task; anything that isn't text is ignored. */
+export function pickManusAttachment(task: any): ManusAttachment | null {
+  const outputs: any[] = task?.output || [];
+  const attachments = outputs
+    .flatMap((o) => o?.content || [])
+    .filter((c: any) => typeof c?.fileUrl === "string" && c.fileUrl)
+    .map((c: any) => {
+      const name = String(c.fileName || c.fileUrl.split("?")[0].split("/").pop() || "");
+      const kind = attachmentKind(name, c.mimeType);
+      return kind ? { url: c.fileUrl as string, name, kind } : null;
+    })
+    .filter((attachment): attachment is ManusAttachment => !!attachment);
+  attachments.sort((a, b) => ATTACHMENT_KINDS.indexOf(a.kind) - ATTACHMENT_KINDS.indexOf(b.kind));
+  return attachments[0] ?? null;
+}
+
+/**
+ * Reads the task's attachment through the server's file proxy and returns text parseBrief
+ * understands: JSON and markdown as-is, CSV rows converted to a brief document.
+ */
+export async function fetchManusOutputFile(task: any, summary: string, appendLog: AppendLog, signal?: AbortSignal) {
+  const attachment = pickManusAttachment(task);
+  if (!attachment) return "";
+
+  try {
+    const res = await fetch(`${MANUS_FILE_PATH}?url=${encodeURIComponent(attachment.url)}`, { signal });
+    if (!res.ok) {
+      const reason = (await res.text().catch(() => "")).slice(0, 120);
+      appendLog(`Failed to fetch Manus file ${attachment.name} (${res.status}${reason ? `: ${reason}` : ""})`, "manus");
+      return "";
+    }
+    const file = readAttachmentText(attachment, await res.text(), res.headers.get("content-type"), summary);
+    appendLog(`Read ${file.kind} attachment ${attachment.name}.`, "manus");
+    return file.text;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    const message = error instanceof Error ? error.message : "Unknown file fetch error";
+    appendLog(`Manus file fetch error (${message})`, "manus");
+    return "";
+  }
+}
+
+/** Final text of the task's last assistant message, falling back to every non-user message. */
+export function extractManusText(task: any) {
+  const outputs: any[] = task?.output || [];
+  const assistantOutputs = outputs.filter((o) => o?.role === "assistant");
+  const lastAssistant = assistantOutputs[assistantOutputs.length - 1];
+  const lastText = (lastAssistant?.content || [])
+    .map((c: any) => c?.text)
+    .filter(Boolean)
+    .join("\n\n");
+
+  if (lastText) return lastText;
+
+  return outputs
+    .filter((o) => o?.role !== "user")
+    .flatMap((o) => o?.content || [])
+    .map((c: any) => c?.text)
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/** Converts a downloaded attachment into text parseBrief understands; the served content type wins over the file name. */
+export function readAttachmentText(attachment: ManusAttachment, text: string, contentType: string | null, summary: string) {
+  const kind = attachmentKind(attachment.name, contentType) ?? attachment.kind;
+  return { kind, text: kind === "csv" ? csvToBriefJson(text, summary) : text };
+}
+
+function attachmentKind(name: string, mimeType?: string | null): ManusAttachmentKind | null {
+  const mime = (mimeType || "").toLowerCase();
+  const extension = name.toLowerCase().split(".").pop() || "";
+  if (mime.includes("json") || extension === "json") return "json";
+  if (mime.includes("markdown") || extension === "md" || extension === "markdown") return "markdown";
+  if (mime.includes("csv") || extension === "csv") return "csv";
+  if (mime.startsWith("text/") || extension === "txt") return "text";
+  return null;
+}
+
+/** Maps CSV columns onto brief.v1 fields by header name; validation happens later in parseBrief. */
+function csvToBriefJson(text: string, summary: string) {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !rows.length) return "";
+  const columns = header.map((cell) => cell.trim().toLowerCase().replace(/[\s_-]+/g, ""));
+  const column = (row: string[], ...names: string[]) => {
+    const index = columns.findIndex((name) => names.includes(name));
+    return index >= 0 ? row[index]?.trim() || undefined : undefined;
+  };
+  const items = rows.map((row) => ({
+    title: column(row, "title", "headline"),
+    summary: column(row, "summary", "description"),
+    category: column(row, "category", "section"),
+    tags: (column(row, "tags") || "")
+      .split(/[;,|]/)
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    source: column(row, "source", "publication"),
+    publishedAt: column(row, "publishedat", "date", "published"),
+    url: column(row, "url", "link"),
+  }));
+  return JSON.stringify({
+    schemaVersion: BRIEF_SCHEMA_VERSION,
+    summary: summary.trim() || "Today's briefing.",
+    items,
+  });
+}
+
+function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      row.push(cell);
+      if (row.some((value) => value.trim())) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  if (row.some((value) => value.trim())) rows.push(row);
+  return rows;
+}
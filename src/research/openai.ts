@@ -0,0 +1,109 @@
+import { buildNewsPrompt, parseBrief, RESEARCH_SYSTEM_PROMPT } from "../news";
+import type { ResearchBackend } from "./types";
+
+const LLM_API_PATH = "/llm-api";
+const LLM_STATUS_PATH = "/llm-status";
+const DEFAULT_LLM_POLL_INTERVAL = 1000;
+const DEFAULT_LLM_MAX_POLL_MS = 5 * 60 * 1000; // 5 minutes
+
+type ChatTask = {
+  controller: AbortController;
+  settled: boolean;
+  text?: string;
+  error?: string;
+};
+
+export type OpenAiCompatConfig = ReturnType<typeof loadOpenAiCompatConfig>;
+
+/** Like Manus, the chat server's URL, key and model stay on the server; the browser calls its /llm-api proxy. */
+export function loadOpenAiCompatConfig() {
+  return {
+    base: LLM_API_PATH,
+    statusPath: LLM_STATUS_PATH,
+    systemPrompt: RESEARCH_SYSTEM_PROMPT,
+  };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (Ollama, LM Studio, vLLM, OpenAI itself).
+ * The request is a single blocking completion, so progress just reports whether it has settled.
+ */
+export function createOpenAiCompatBackend(config: OpenAiCompatConfig): ResearchBackend {
+  const tasks = new Map<string, ChatTask>();
+  // Reported by the status probe; only used for the trace.
+  let model = "the chat model";
+
+  return {
+    id: "openai",
+    label: "Chat model",
+    available: false,
+    banner: `OpenAI-compatible backend enabled (server proxy ${config.base}).`,
+    pollIntervalMs: DEFAULT_LLM_POLL_INTERVAL,
+    maxPollMs: DEFAULT_LLM_MAX_POLL_MS,
+    async probe() {
+      try {
+        const res = await fetch(config.statusPath);
+        if (!res.ok) return false;
+        const data = await res.json();
+        if (typeof data?.model === "string") model = data.model;
+        return !!data?.available;
+      } catch {
+        return false;
+      }
+    },
+    async create({ profile }, { appendLog, signal }) {
+      const id = `chat-${Date.now()}`;
+      const task: ChatTask = { controller: new AbortController(), settled: false };
+      signal?.addEventListener("abort", () => task.controller.abort(), { once: true });
+      tasks.set(id, task);
+      appendLog(`Requesting completion from ${model}...`, "llm");
+      fetch(config.base, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          temperature: 0.3,
+          messages: [
+            { role: "system", content: config.systemPrompt },
+            { role: "user", content: buildNewsPrompt(profile) },
+          ],
+        }),
+        signal: task.controller.signal,
+      })
+        .then(async (response) => {
+          const data = await response.json().catch(() => ({}));
+          if (!response.ok) {
+            task.error = data?.error?.message || `Chat completion failed: HTTP ${response.status}`;
+            return;
+          }
+          task.text = data?.choices?.[0]?.message?.content || "";
+        })
+        .catch((error) => {
+          task.error = error instanceof Error ? error.message : "Chat completion request failed";
+        })
+        .finally(() => {
+          task.settled = true;
+        });
+      return { id, backend: "openai", startedAt: Date.now() };
+    },
+    async progress(task) {
+      const state = tasks.get(task.id);
+      if (!state) return { status: "failed", error: `Unknown chat task ${task.id}` };
+      if (!state.settled) return { status: "running" };
+      if (state.error) return { status: "failed", error: state.error };
+      return { status: "completed" };
+    },
+    async result(task, { appendLog }) {
+      const state = tasks.get(task.id);
+      tasks.delete(task.id);
+      appendLog("Completion received.", "llm");
+      const parsed = parseBrief(state?.text || "");
+      appendLog(`Parsed brief as ${parsed.format} (${parsed.note}).`, "parser");
+      return parsed;
+    },
+    async cancel(task, { appendLog }) {
+      tasks.get(task.id)?.controller.abort();
+      tasks.delete(task.id);
+      appendLog("Completion request aborted.", "llm");
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { AppendLog, NewsBrief, ReaderProfile } from "../types";
+
+export type ResearchBackendId = "manus" | "openai" | "demo";
+
+export type ResearchStatus = "pending" | "running" | "completed" | "failed";
+
+export type ResearchRequest = {
+  profile: ReaderProfile;
+};
+
+export type ResearchContext = {
+  appendLog: AppendLog;
+  /** Aborted when the reader cancels the briefing; backends pass it to their fetches. */
+  signal?: AbortSignal;
+};
+
+export type ResearchTask = {
+  id: string;
+  backend: ResearchBackendId;
+  startedAt: number;
+};
+
+export type ResearchProgress = {
+  status: ResearchStatus;
+  brief?: NewsBrief;
+  error?: string;
+};
+
+export type ResearchSubscription = {
+  /** True while pushed updates are flowing, so the driver can back off to slow fallback polling. */
+  live: () => boolean;
+  close: () => void;
+};
+
+export type ResearchBackend = {
+  id: ResearchBackendId;
+  label: string;
+  /** False when the backend is missing the config it needs (API key, base URL). */
+  available: boolean;
+  /** Asks the server whether the backend is usable; overrides available once it resolves. */
+  probe?: () => Promise<boolean>;
+  /** Trace line written when the backend is selected. */
+  banner: string;
+  pollIntervalMs: number;
+  /** Poll interval used while a push subscription is live; polling never stops entirely. */
+  fallbackPollIntervalMs?: number;
+  maxPollMs: number;
+  create: (request: ResearchRequest, context: ResearchContext) => Promise<ResearchTask>;
+  progress: (task: ResearchTask, context: ResearchContext) => Promise<ResearchProgress>;
+  result: (task: ResearchTask, context: ResearchContext) => Promise<NewsBrief>;
+  cancel: (task: ResearchTask, context: ResearchContext) => Promise<void>;
+  subscribe?: (
+    task: ResearchTask,
+    context: ResearchContext,
+    onUpdate: (progress: ResearchProgress) => void
+  ) => ResearchSubscription | null;
+};
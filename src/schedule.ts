@@ -0,0 +1,92 @@
+import { importEditions } from "./editions";
+import type { DeliverySchedule, Edition, ScheduleState } from "./types";
+
+const SCHEDULE_PATH = "/schedule";
+const SCHEDULED_EDITIONS_PATH = "/scheduled-editions";
+const EMAIL_DIGEST_PATH = "/email-digest";
+const IMPORT_CURSOR_STORAGE_KEY = "manus.schedule.importedAt";
+const DELIVERY_SECRET_STORAGE_KEY = "manus.schedule.secret";
+
+export type ScheduleInput = Omit<DeliverySchedule, "updatedAt">;
+
+/** Whether the server has SMTP settings, and which server and sender it uses. */
+export type EmailStatus = { configured: boolean; server: string | null; from: string | null };
+
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/** The server's DELIVERY_SECRET as the reader entered it; schedule and email calls send it. */
+export function loadDeliverySecret() {
+  return window.localStorage.getItem(DELIVERY_SECRET_STORAGE_KEY) ?? "";
+}
+
+export function saveDeliverySecret(secret: string) {
+  if (secret) window.localStorage.setItem(DELIVERY_SECRET_STORAGE_KEY, secret);
+  else window.localStorage.removeItem(DELIVERY_SECRET_STORAGE_KEY);
+}
+
+function deliveryHeaders(): Record<string, string> {
+  return { "Content-Type": "application/json", "X-Delivery-Secret": loadDeliverySecret() };
+}
+
+export async function fetchSchedule(): Promise<ScheduleState | null> {
+  try {
+    const res = await fetch(SCHEDULE_PATH, { headers: deliveryHeaders() });
+    if (!res.ok) return null;
+    return (await res.json()) as ScheduleState;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveSchedule(input: ScheduleInput): Promise<ScheduleState> {
+  const res = await fetch(SCHEDULE_PATH, {
+    method: "PUT",
+    headers: deliveryHeaders(),
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Saving the schedule failed (HTTP ${res.status})`);
+  return data as ScheduleState;
+}
+
+export async function fetchEmailStatus(): Promise<EmailStatus | null> {
+  try {
+    const res = await fetch(EMAIL_DIGEST_PATH);
+    if (!res.ok) return null;
+    return (await res.json()) as EmailStatus;
+  } catch {
+    return null;
+  }
+}
+
+/** Emails the edition as a digest right away, through the server's SMTP settings. */
+export async function sendTestDigest(to: string[], edition: Edition) {
+  const res = await fetch(EMAIL_DIGEST_PATH, {
+    method: "POST",
+    headers: deliveryHeaders(),
+    body: JSON.stringify({ to, edition }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Sending the digest failed (HTTP ${res.status})`);
+}
+
+/**
+ * Copies editions the server delivered since the last import into the local archive.
+ * Returns the newest one imported, if any.
+ */
+export async function importScheduledEditions(): Promise<Edition | null> {
+  const after = window.localStorage.getItem(IMPORT_CURSOR_STORAGE_KEY);
+  const res = await fetch(`${SCHEDULED_EDITIONS_PATH}${after ? `?after=${encodeURIComponent(after)}` : ""}`, {
+    headers: deliveryHeaders(),
+  });
+  if (!res.ok) return null;
+  const data = await res.json().catch(() => ({}));
+  const editions: Edition[] = Array.isArray(data?.editions) ? data.editions : [];
+  if (!editions.length) return null;
+  await importEditions(editions);
+  const newest = editions[editions.length - 1];
+  window.localStorage.setItem(IMPORT_CURSOR_STORAGE_KEY, newest.createdAt);
+  return newest;
+}
@@ -0,0 +1,164 @@
+import type { Edition, NewsCategory } from "./types";
+
+const SNIPPET_LENGTH = 180;
+const MAX_RESULTS = 50;
+
+export type SearchDocument = {
+  /** Edition id plus the story's position, or "summary" for the front summary. */
+  id: string;
+  editionId: string;
+  editionCreatedAt: string;
+  kind: "story" | "summary";
+  title: string;
+  summary: string;
+  tags: string[];
+  /** Outlet names and hosts of every source that carried the story. */
+  sources: string[];
+  category: NewsCategory | null;
+  url?: string;
+};
+
+export type SearchFilters = {
+  /** YYYY-MM-DD, inclusive, compared against the edition date. */
+  from: string;
+  to: string;
+  category: NewsCategory | "";
+  source: string;
+};
+
+export type SearchResult = { document: SearchDocument; score: number; terms: string[] };
+
+export type HighlightPart = { text: string; match: boolean };
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = { from: "", to: "", category: "", source: "" };
+
+// Title matches count most, then tags and sources, then body text.
+const FIELD_WEIGHTS = { title: 4, tags: 3, sources: 2, summary: 1 };
+
+/** Flattens editions into one searchable document per story plus one per front summary. */
+export function buildSearchIndex(editions: Edition[]): SearchDocument[] {
+  return editions.flatMap((edition) => [
+    ...(edition.summary
+      ? [
+          {
+            id: `${edition.id}:summary`,
+            editionId: edition.id,
+            editionCreatedAt: edition.createdAt,
+            kind: "summary" as const,
+            title: "Front summary",
+            summary: edition.summary,
+            tags: [],
+            sources: [],
+            category: null,
+          },
+        ]
+      : []),
+    ...edition.items.map((item, index) => ({
+      id: `${edition.id}:${index}`,
+      editionId: edition.id,
+      editionCreatedAt: edition.createdAt,
+      kind: "story" as const,
+      title: item.title,
+      summary: item.summary,
+      tags: item.tags ?? [],
+      sources: Array.from(
+        new Set(
+          [item.source, item.url, ...(item.sources ?? []).flatMap((source) => [source.source, source.url])]
+            .filter((value): value is string => Boolean(value))
+            .map(sourceLabel)
+        )
+      ),
+      category: item.category,
+      url: item.url,
+    })),
+  ]);
+}
+
+/**
+ * Every query term has to match the start of a word somewhere in the document. Results are ranked
+ * by weighted field hits, newest edition first on ties.
+ */
+export function searchIndex(index: SearchDocument[], query: string, filters: SearchFilters): SearchResult[] {
+  const terms = tokenize(query);
+  const source = filters.source.trim().toLowerCase();
+  const from = filters.from ? Date.parse(`${filters.from}T00:00:00`) : null;
+  const to = filters.to ? Date.parse(`${filters.to}T23:59:59.999`) : null;
+  if (!terms.length && !filters.from && !filters.to && !filters.category && !source) return [];
+  const results: SearchResult[] = [];
+  index.forEach((document) => {
+    const created = Date.parse(document.editionCreatedAt);
+    if (from !== null && created < from) return;
+    if (to !== null && created > to) return;
+    if (filters.category && document.category !== filters.category) return;
+    if (source && !document.sources.some((entry) => entry.toLowerCase() === source)) return;
+    let score = 0;
+    for (const term of terms) {
+      const hits =
+        FIELD_WEIGHTS.title * countHits(document.title, term) +
+        FIELD_WEIGHTS.tags * countHits(document.tags.join(" "), term) +
+        FIELD_WEIGHTS.sources * countHits(document.sources.join(" "), term) +
+        FIELD_WEIGHTS.summary * countHits(document.summary, term);
+      if (!hits) return;
+      score += hits;
+    }
+    results.push({ document, score, terms });
+  });
+  return results
+    .sort((a, b) => b.score - a.score || b.document.editionCreatedAt.localeCompare(a.document.editionCreatedAt))
+    .slice(0, MAX_RESULTS);
+}
+
+/** Distinct sources in the index, for the source filter. */
+export function listSources(index: SearchDocument[]) {
+  return Array.from(new Set(index.flatMap((document) => document.sources))).sort((a, b) => a.localeCompare(b));
+}
+
+/** Splits text into plain and matching parts so the caller can wrap matches in <mark>. */
+export function highlight(text: string, terms: string[]): HighlightPart[] {
+  if (!terms.length || !text) return [{ text, match: false }];
+  // Longest terms first, so "elections" wins over "election" where both match.
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(wordPrefixPattern);
+  const pattern = new RegExp(alternatives.join("|"), "giu");
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
+
+/** A window of the text around its first match, so long summaries still show why they matched. */
+export function snippet(text: string, terms: string[]) {
+  if (text.length <= SNIPPET_LENGTH) return text;
+  const first = terms.length ? text.search(new RegExp(wordPrefixPattern(terms[0]), "iu")) : -1;
+  const start = first > SNIPPET_LENGTH / 3 ? first - Math.floor(SNIPPET_LENGTH / 3) : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+function tokenize(query: string) {
+  return Array.from(new Set(query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)));
+}
+
+function countHits(text: string, term: string) {
+  if (!text) return 0;
+  return Array.from(text.matchAll(new RegExp(wordPrefixPattern(term), "giu"))).length;
+}
+
+/** Matches the term at the start of a word, so "vote" finds "voters" but not "devoted". */
+function wordPrefixPattern(term: string) {
+  return `(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`;
+}
+
+function sourceLabel(value: string) {
+  if (!/^https?:\/\//i.test(value)) return value.trim();
+  try {
+    return new URL(value).hostname.replace(/^www\./, "");
+  } catch {
+    return value.trim();
+  }
+}
@@ -0,0 +1,47 @@
+import type { NewsCategory, NewsItem } from "./types";
+
+export type SectionOrder = "relevance" | "recency" | "coverage";
+
+export type NewsSection = {
+  category: NewsCategory;
+  label: string;
+  description: string;
+  /** relevance keeps the model's ranking, recency puts the newest first, coverage the most widely reported. */
+  order: SectionOrder;
+};
+
+export const NEWS_SECTIONS: NewsSection[] = [
+  { category: "Local", label: "Local", description: "What is happening where you are.", order: "recency" },
+  { category: "International", label: "International", description: "The wider world this week.", order: "recency" },
+  { category: "Interest", label: "Your Interests", description: "Closest matches to your topics.", order: "relevance" },
+  { category: "Social", label: "Social Pulse", description: "What people are arguing about online.", order: "coverage" },
+  { category: "Other", label: "Other", description: "Stories that did not fit a section.", order: "relevance" },
+];
+
+export function sectionAnchor(category: NewsCategory) {
+  return `section-${category.toLowerCase()}`;
+}
+
+/** Groups stories into sections in NEWS_SECTIONS order, sorting each by its own order; empty sections are left out. */
+export function groupSections(items: NewsItem[]) {
+  return NEWS_SECTIONS.map((section) => ({
+    section,
+    items: sortSection(
+      items.filter((item) => item.category === section.category),
+      section.order
+    ),
+  })).filter((group) => group.items.length > 0);
+}
+
+function sortSection(items: NewsItem[], order: SectionOrder) {
+  if (order === "relevance") return items;
+  // Ties keep the model's ranking, since Array.prototype.sort is stable.
+  return [...items].sort((a, b) =>
+    order === "recency" ? publishedTime(b) - publishedTime(a) : (b.sources?.length ?? 1) - (a.sources?.length ?? 1)
+  );
+}
+
+function publishedTime(item: NewsItem) {
+  const time = item.publishedAt ? Date.parse(item.publishedAt) : Number.NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
@@ -0,0 +1,138 @@
+import { abortError } from "../utils";
+import type { SpeechProvider } from "./types";
+import { watchVoiceActivity } from "./vad";
+
+// The Web Speech recognition API is not in TypeScript's DOM typings; this is the part used here.
+type RecognitionResultList = ArrayLike<ArrayLike<{ transcript: string }>>;
+
+type Recognition = {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: RecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+};
+
+type RecognitionConstructor = new () => Recognition;
+
+/** The browser's own speechSynthesis and SpeechRecognition; no server or key needed. */
+export function createBrowserSpeechProvider(): SpeechProvider {
+  return {
+    id: "browser",
+    label: "Browser speech",
+    capabilities: {
+      speak: typeof window !== "undefined" && "speechSynthesis" in window,
+      listen: !!recognitionConstructor(),
+    },
+    speak(text, signal) {
+      return new Promise<void>((resolve) => {
+        const utterance = new SpeechSynthesisUtterance(text);
+        const done = () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          window.speechSynthesis.cancel();
+          done();
+        };
+        utterance.onend = done;
+        utterance.onerror = done;
+        if (signal.aborted) {
+          resolve();
+          return;
+        }
+        signal.addEventListener("abort", onAbort, { once: true });
+        window.speechSynthesis.speak(utterance);
+      });
+    },
+    listen(options) {
+      const Recognition = recognitionConstructor();
+      if (!Recognition) {
+        return { result: Promise.reject(new Error("Speech recognition is not supported here.")), stop() {}, cancel() {} };
+      }
+      const recognition = new Recognition();
+      recognition.lang = navigator.language || "en-US";
+      recognition.interimResults = false;
+      let text = "";
+      let failure: Error | null = null;
+      let started = false;
+      let stopRequested = false;
+      let cancelled = false;
+      let stream: MediaStream | null = null;
+      let unwatch = () => {};
+      const release = () => {
+        unwatch();
+        stream?.getTracks().forEach((track) => track.stop());
+      };
+      const result = new Promise<string>((resolve, reject) => {
+        recognition.onresult = (event) => {
+          text = Array.from(event.results, (entry) => entry[0]?.transcript ?? "")
+            .join(" ")
+            .trim();
+        };
+        recognition.onerror = (event) => {
+          // No speech just means an empty answer; "aborted" is our own cancel.
+          if (event.error === "no-speech" || event.error === "aborted") return;
+          failure = new Error(
+            event.error === "not-allowed" || event.error === "service-not-allowed"
+              ? "Microphone access denied."
+              : `Speech recognition failed (${event.error}).`
+          );
+        };
+        recognition.onend = () => {
+          release();
+          if (cancelled) reject(abortError());
+          else if (failure) reject(failure);
+          else resolve(text);
+        };
+        // Recognition cannot be measured, so a second stream of the same microphone drives the VAD.
+        // Without one, recognition ends by itself at the first pause, with maxMs as the limit.
+        void (navigator.mediaDevices?.getUserMedia({ audio: true }) ?? Promise.reject())
+          .catch(() => null)
+          .then((meter) => {
+            stream = meter;
+            if (stopRequested) {
+              release();
+              if (cancelled) reject(abortError());
+              else resolve("");
+              return;
+            }
+            recognition.continuous = !!meter;
+            recognition.start();
+            started = true;
+            if (meter) {
+              unwatch = watchVoiceActivity(meter, options, () => recognition.stop());
+            } else {
+              const timer = window.setTimeout(() => recognition.stop(), options.vad.maxMs);
+              unwatch = () => window.clearTimeout(timer);
+            }
+          });
+      });
+      return {
+        result,
+        stop() {
+          stopRequested = true;
+          if (started) recognition.stop();
+        },
+        cancel() {
+          stopRequested = true;
+          cancelled = true;
+          if (started) recognition.abort();
+        },
+      };
+    },
+  };
+}
+
+function recognitionConstructor(): RecognitionConstructor | null {
+  if (typeof window === "undefined") return null;
+  const scope = window as unknown as {
+    SpeechRecognition?: RecognitionConstructor;
+    webkitSpeechRecognition?: RecognitionConstructor;
+  };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition ?? null;
+}
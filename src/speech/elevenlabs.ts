@@ -0,0 +1,118 @@
+import { abortError } from "../utils";
+import type { ListenSession, SpeechProvider } from "./types";
+import { watchVoiceActivity } from "./vad";
+import type { ListenOptions } from "./vad";
+
+const SPEECH_STATUS_PATH = "/speech-status";
+const TTS_PATH = "/eleven-tts";
+const ASR_PATH = "/eleven-asr";
+
+/** Speech through the server's ElevenLabs proxy: /eleven-tts to speak, microphone recordings sent to /eleven-asr. */
+export function createElevenLabsProvider(): SpeechProvider {
+  return {
+    id: "elevenlabs",
+    label: "ElevenLabs",
+    capabilities: { speak: false, listen: false },
+    async probe() {
+      try {
+        const res = await fetch(SPEECH_STATUS_PATH);
+        if (!res.ok) return { speak: false, listen: false };
+        const data = await res.json();
+        return { speak: !!data?.tts, listen: !!data?.asr && canRecord() };
+      } catch {
+        return { speak: false, listen: false };
+      }
+    },
+    async speak(text, signal) {
+      const response = await fetch(TTS_PATH, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text }),
+        signal,
+      });
+      if (!response.ok) throw new Error(`Text to speech failed (HTTP ${response.status})`);
+      const audioUrl = URL.createObjectURL(new Blob([await response.arrayBuffer()], { type: "audio/mpeg" }));
+      const audio = new Audio(audioUrl);
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          signal.removeEventListener("abort", onAbort);
+          URL.revokeObjectURL(audioUrl);
+          resolve();
+        };
+        const onAbort = () => audio.pause();
+        audio.onended = done;
+        audio.onerror = done;
+        audio.onpause = done;
+        signal.addEventListener("abort", onAbort, { once: true });
+        if (signal.aborted) onAbort();
+        else audio.play().catch(done);
+      });
+    },
+    listen(options) {
+      return recordAndTranscribe(options);
+    },
+  };
+}
+
+function canRecord() {
+  return typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+function recordAndTranscribe(options: ListenOptions): ListenSession {
+  let recorder: MediaRecorder | null = null;
+  let stopRequested = false;
+  let cancelled = false;
+  const finish = () => {
+    stopRequested = true;
+    if (recorder?.state === "recording") recorder.stop();
+  };
+
+  const result = (async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      throw new Error("Microphone access denied.");
+    }
+    const chunks: Blob[] = [];
+    try {
+      if (stopRequested) throw abortError();
+      const active = new MediaRecorder(stream);
+      recorder = active;
+      const stopped = new Promise<void>((resolve) => {
+        active.onstop = () => resolve();
+      });
+      active.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      active.start();
+      const unwatch = watchVoiceActivity(stream, options, finish);
+      await stopped;
+      unwatch();
+    } finally {
+      stream.getTracks().forEach((track) => track.stop());
+    }
+    if (cancelled) throw abortError();
+    const blob = new Blob(chunks, { type: recorder?.mimeType || "audio/webm" });
+    const formData = new FormData();
+    formData.append("file", blob, "speech.webm");
+    formData.append("audio", blob, "speech.webm");
+    formData.append("model_id", "scribe_v1");
+    const res = await fetch(ASR_PATH, { method: "POST", body: formData });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      const error = data?.error;
+      throw new Error(typeof error === "string" ? error : error ? JSON.stringify(error) : "Speech recognition failed.");
+    }
+    return typeof data?.text === "string" ? data.text : "";
+  })();
+
+  return {
+    result,
+    stop: finish,
+    cancel() {
+      cancelled = true;
+      finish();
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { createBrowserSpeechProvider } from "./browser";
+import { createElevenLabsProvider } from "./elevenlabs";
+import { createTextOnlyProvider } from "./text";
+import type { SpeechCapabilities, SpeechProvider, SpeechProviderId } from "./types";
+
+export type { ListenSession, SpeechProvider, SpeechProviderId } from "./types";
+export { DEFAULT_VAD, loadVadSettings, saveVadSettings } from "./vad";
+export type { ListenOptions, VadSettings } from "./vad";
+
+export type SpeechAvailability = Partial<Record<SpeechProviderId, SpeechCapabilities>>;
+
+/** Providers for speaking prompts and for hearing answers, picked separately. */
+export type SpeechSetup = { output: SpeechProvider; input: SpeechProvider };
+
+/** In order of preference; the text-only provider is last and always there. */
+export function createSpeechProviders(): SpeechProvider[] {
+  return [createElevenLabsProvider(), createBrowserSpeechProvider(), createTextOnlyProvider()];
+}
+
+/** Resolves every provider's probe; providers without one keep their static capabilities. */
+export async function probeSpeechProviders(providers: SpeechProvider[]): Promise<SpeechAvailability> {
+  const entries = await Promise.all(
+    providers.map(async (provider) => [provider.id, provider.probe ? await provider.probe() : provider.capabilities] as const)
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * The first provider that can speak and the first that can listen. ElevenLabs can cover one side
+ * and the browser the other; whatever nothing covers falls to text only.
+ */
+export function pickSpeechProviders(providers: SpeechProvider[], availability: SpeechAvailability = {}): SpeechSetup {
+  const capable = (capability: keyof SpeechCapabilities) =>
+    providers.find((provider) => (availability[provider.id] ?? provider.capabilities)[capability]) ??
+    providers.find((provider) => provider.id === "text") ??
+    createTextOnlyProvider();
+  return { output: capable("speak"), input: capable("listen") };
+}
@@ -0,0 +1,18 @@
+import type { SpeechProvider } from "./types";
+
+/** Text only: prompts stay on screen and answers are typed. Always available, so it is the last resort. */
+export function createTextOnlyProvider(): SpeechProvider {
+  return {
+    id: "text",
+    label: "Text only",
+    capabilities: { speak: false, listen: false },
+    async speak() {},
+    listen() {
+      return {
+        result: Promise.reject(new Error("Voice input is not available here. Type your answer instead.")),
+        stop() {},
+        cancel() {},
+      };
+    },
+  };
+}
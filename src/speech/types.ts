@@ -0,0 +1,30 @@
+import type { ListenOptions } from "./vad";
+
+export type SpeechProviderId = "elevenlabs" | "browser" | "text";
+
+export type SpeechCapabilities = {
+  /** Can read prompts aloud. */
+  speak: boolean;
+  /** Can turn the reader's voice into text. */
+  listen: boolean;
+};
+
+/** An open microphone. stop() ends it early and still transcribes; cancel() rejects result with an AbortError. */
+export type ListenSession = {
+  result: Promise<string>;
+  stop: () => void;
+  cancel: () => void;
+};
+
+export type SpeechProvider = {
+  id: SpeechProviderId;
+  label: string;
+  /** What is known without asking the server. */
+  capabilities: SpeechCapabilities;
+  /** Asks the server what is configured; overrides capabilities once it resolves. */
+  probe?: () => Promise<SpeechCapabilities>;
+  /** Resolves once the text has been spoken, or as soon as signal aborts. */
+  speak: (text: string, signal: AbortSignal) => Promise<void>;
+  /** Listens for one answer, ended by options.vad unless stop() comes first. */
+  listen: (options: ListenOptions) => ListenSession;
+};
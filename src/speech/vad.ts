@@ -0,0 +1,114 @@
+const VAD_STORAGE_KEY = "manus.speech.vad";
+// RMS of ordinary speech close to a laptop microphone sits around 0.02-0.1; this maps it onto 0-1.
+const LEVEL_GAIN = 10;
+const SAMPLE_MS = 50;
+// Shorter bursts above the threshold (a click, a cough) do not count as the reader starting to speak.
+const MIN_SPEECH_MS = 150;
+
+/** When an open microphone is closed again. Every duration is in milliseconds. */
+export type VadSettings = {
+  /** Input level (0-1, the scale onLevel reports) above which the reader counts as speaking. */
+  threshold: number;
+  /** Silence after speech that ends the answer. */
+  silenceMs: number;
+  /** How long to wait for the reader to start before giving up. */
+  noSpeechMs: number;
+  /** Longest answer, however it goes. */
+  maxMs: number;
+};
+
+export const DEFAULT_VAD: VadSettings = { threshold: 0.15, silenceMs: 1200, noSpeechMs: 8000, maxMs: 30000 };
+
+/** Options for one answer: the VAD settings, and a callback for the live input level where it can be measured. */
+export type ListenOptions = {
+  vad: VadSettings;
+  onLevel?: (level: number) => void;
+};
+
+export function loadVadSettings(): VadSettings {
+  if (typeof window === "undefined") return DEFAULT_VAD;
+  const raw = window.localStorage.getItem(VAD_STORAGE_KEY);
+  if (!raw) return DEFAULT_VAD;
+  try {
+    const parsed = JSON.parse(raw);
+    const pick = (key: keyof VadSettings) =>
+      Number.isFinite(parsed?.[key]) && parsed[key] > 0 ? Number(parsed[key]) : DEFAULT_VAD[key];
+    return {
+      threshold: Math.min(1, pick("threshold")),
+      silenceMs: pick("silenceMs"),
+      noSpeechMs: pick("noSpeechMs"),
+      maxMs: pick("maxMs"),
+    };
+  } catch {
+    return DEFAULT_VAD;
+  }
+}
+
+export function saveVadSettings(settings: VadSettings) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(VAD_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Measures a microphone stream with Web Audio and calls onEnd once: after trailing silence, when
+ * nothing was said within noSpeechMs, or at maxMs. Without Web Audio only maxMs applies.
+ * Returns a function that stops watching; it does not stop the stream.
+ */
+export function watchVoiceActivity(
+  stream: MediaStream,
+  { vad, onLevel }: ListenOptions,
+  onEnd: () => void
+): () => void {
+  const started = Date.now();
+  let ended = false;
+  let cleanup = () => window.clearTimeout(limit);
+  const end = () => {
+    if (ended) return;
+    ended = true;
+    cleanup();
+    onEnd();
+  };
+  const limit = window.setTimeout(end, vad.maxMs);
+
+  const AudioContextClass =
+    window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (AudioContextClass) {
+    const context = new AudioContextClass();
+    // Opened after speech rather than a click, so the browser may start it suspended.
+    void context.resume().catch(() => undefined);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    const source = context.createMediaStreamSource(stream);
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let speechMs = 0;
+    let quietSince = started;
+    const sampler = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let index = 0; index < samples.length; index += 1) sum += samples[index] * samples[index];
+      const level = Math.min(1, Math.sqrt(sum / samples.length) * LEVEL_GAIN);
+      onLevel?.(level);
+      const now = Date.now();
+      if (level >= vad.threshold) {
+        speechMs += SAMPLE_MS;
+        quietSince = now;
+      } else if (speechMs >= MIN_SPEECH_MS ? now - quietSince >= vad.silenceMs : now - started >= vad.noSpeechMs) {
+        end();
+      }
+    }, SAMPLE_MS);
+    cleanup = () => {
+      window.clearTimeout(limit);
+      window.clearInterval(sampler);
+      source.disconnect();
+      void context.close().catch(() => undefined);
+      onLevel?.(0);
+    };
+  }
+
+  return () => {
+    if (ended) return;
+    ended = true;
+    cleanup();
+  };
+}
@@ -0,0 +1,163 @@
+export type LogLine = {
+  id: string;
+  ts: string;
+  meta: string;
+  message: string;
+};
+
+export type AppendLog = (message: string, meta?: string) => void;
+
+export type ReaderProfile = {
+  location: string;
+  topics: string;
+  /** Missing on profiles saved before preferences existed; DEFAULT_PREFERENCES applies. */
+  preferences?: ProfilePreferences;
+  /** Story ratings, newest first; the interest model is derived from them. */
+  feedback?: StoryFeedback[];
+};
+
+export type WeightedCategory = "Local" | "International" | "Interest" | "Social";
+
+export type ProfilePreferences = {
+  excludedTopics: string[];
+  /** Hostnames; subdomains match too. */
+  blockedDomains: string[];
+  preferredDomains: string[];
+  /** Language stories are written in; empty leaves it to the sources. */
+  language: string;
+  recencyDays: number;
+  storyCount: number;
+  /** 0 leaves the category out; higher weights get a larger share of storyCount. */
+  categoryWeights: Record<WeightedCategory, number>;
+};
+
+/** A saved reader profile; each one keeps its own edition history. */
+export type NamedProfile = ReaderProfile & {
+  id: string;
+  name: string;
+  /** Edits made by talking to the editor, newest first. */
+  changes?: ProfileChange[];
+};
+
+/**
+ * A change to a profile, as asked for in words ("add crypto, drop sports, focus on Penang").
+ * Unset fields are left as they are.
+ */
+export type ProfileEdit = {
+  location?: string;
+  addTopics?: string[];
+  removeTopics?: string[];
+  /** Added to, or taken off, preferences.excludedTopics. */
+  excludeTopics?: string[];
+  includeTopics?: string[];
+  blockDomains?: string[];
+  unblockDomains?: string[];
+  preferDomains?: string[];
+  unpreferDomains?: string[];
+  /** An empty string clears the language preference. */
+  language?: string;
+  storyCount?: number;
+  recencyDays?: number;
+  categoryWeights?: Partial<Record<WeightedCategory, number>>;
+};
+
+export type ProfileChange = {
+  at: string;
+  /** What the reader said, in their words. */
+  request: string;
+  edit: ProfileEdit;
+};
+
+export type StoryRating = "up" | "down" | "more" | "less";
+
+/** One rating, with the signals it was given for, so the model can be rebuilt or reset at any time. */
+export type StoryFeedback = {
+  key: string;
+  title: string;
+  rating: StoryRating;
+  /** Profile topics the story matched. */
+  topics: string[];
+  tags: string[];
+  /** Hostnames of the story and every source that carried it. */
+  sources: string[];
+  ratedAt: string;
+};
+
+export type NewsCategory = "Local" | "International" | "Interest" | "Social" | "Other";
+
+export type NewsSource = {
+  title: string;
+  url?: string;
+  source?: string;
+};
+
+export type NewsItem = {
+  title: string;
+  summary: string;
+  url?: string;
+  source?: string;
+  publishedAt?: string;
+  category: NewsCategory;
+  mediaUrl?: string;
+  mediaType?: "image" | "video";
+  tags?: string[];
+  /** Every outlet that carried this story, after duplicates were merged. */
+  sources?: NewsSource[];
+};
+
+export type NewsBrief = {
+  summary: string;
+  items: NewsItem[];
+};
+
+export type Edition = {
+  id: string;
+  createdAt: string;
+  /** Missing on editions archived before profiles had ids; they are claimed by the first profile. */
+  profileId?: string;
+  profile: ReaderProfile;
+  summary: string;
+  items: NewsItem[];
+  trace: LogLine[];
+  backend?: string;
+  /** Set when the edition was produced by a scheduled delivery rather than a manual refresh. */
+  scheduledFor?: string;
+};
+
+export type DeliverySchedule = {
+  enabled: boolean;
+  /** Delivery times as HH:MM in timeZone. */
+  times: string[];
+  /** IANA time zone, e.g. "Asia/Kuala_Lumpur". */
+  timeZone: string;
+  profile: NamedProfile;
+  /** Addresses each delivery is emailed to; empty leaves email off. */
+  emailTo?: string[];
+  updatedAt: string;
+};
+
+export type ScheduledRunStatus = "running" | "succeeded" | "failed" | "missed";
+
+export type ScheduledRun = {
+  id: string;
+  /** The delivery slot this run was for. */
+  slot: string;
+  /** "catch-up" runs started late because the server was down at the slot. */
+  trigger: "on-time" | "catch-up";
+  status: ScheduledRunStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  backend?: string;
+  editionId?: string;
+  storyCount?: number;
+  error?: string;
+  /** Set once the edition was emailed; emailError when sending failed. */
+  emailedTo?: string[];
+  emailError?: string;
+};
+
+export type ScheduleState = {
+  schedule: DeliverySchedule | null;
+  runs: ScheduledRun[];
+  nextRunAt: string | null;
+};
@@ -0,0 +1,116 @@
+import { NEWS_SECTIONS } from "./sections";
+import type { NewsCategory } from "./types";
+
+export type VoiceCommandKind =
+  | "next-page"
+  | "previous-page"
+  | "filter"
+  | "clear-filter"
+  | "section"
+  | "refresh"
+  | "read"
+  | "open"
+  | "stop"
+  | "help";
+
+export type VoiceCommand = {
+  kind: VoiceCommandKind;
+  /** For "filter": the matching tag, or the words as heard when no tag matches. */
+  tag?: string;
+  /** For "section", and for paging when a section was named. */
+  section?: NewsCategory;
+  /** For "read" and "open": 0-based position on the front page. Unset means the story last talked about. */
+  index?: number;
+};
+
+export const VOICE_COMMAND_EXAMPLES = [
+  "next page",
+  "show only Technology",
+  "show everything",
+  "go to Local",
+  "read me the third story",
+  "open that link",
+  "refresh",
+  "stop",
+];
+
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+const NUMBERS = ["one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+
+/** Maps a spoken phrase onto a front-page action; null when it is not a command. */
+export function parseVoiceCommand(transcript: string, tags: string[]): VoiceCommand | null {
+  const text = transcript
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(?:(?:ok|okay|hey|please|can you|could you|would you)\s+)+/, "")
+    .replace(/\s+please$/, "");
+  if (!text) return null;
+
+  if (/^(?:stop|stop reading|stop talking|be quiet|quiet|shut up|cancel|never mind)$/.test(text)) return { kind: "stop" };
+  if (/\b(?:help|what can i say|what can you do)\b/.test(text)) return { kind: "help" };
+  if (/^(?:show (?:me )?)?(?:all|everything)(?: stories| news)?$|\b(?:clear|remove|reset) (?:the )?(?:filter|tags?)\b/.test(text)) {
+    return { kind: "clear-filter" };
+  }
+
+  const filter = text.match(
+    /^(?:(?:show|give)(?: me)? (?:only|just)|only|just|filter(?: by| to| on)?) (?:the )?(.+?)(?: stories| news| ones)?$/
+  );
+  if (filter) {
+    const tag = matchTag(filter[1], tags);
+    if (tag) return { kind: "filter", tag };
+    const section = matchSection(filter[1]);
+    return section ? { kind: "section", section } : { kind: "filter", tag: filter[1] };
+  }
+
+  if (/\b(?:next|following) page\b|^next$/.test(text)) return { kind: "next-page", section: matchSection(text) ?? undefined };
+  if (/\b(?:previous|last|prior) page\b|^(?:go )?back$|^previous$/.test(text)) {
+    return { kind: "previous-page", section: matchSection(text) ?? undefined };
+  }
+
+  const jump = text.match(/^(?:go to|jump to|take me to|show(?: me)?|open) (?:the )?(.+?)(?: section| news| stories)?$/);
+  const jumpSection = jump ? matchSection(jump[1]) : null;
+  if (jumpSection) return { kind: "section", section: jumpSection };
+
+  if (/\b(?:read|tell me about|what'?s in)\b/.test(text)) return { kind: "read", index: storyIndex(text) ?? undefined };
+  if (/\bopen\b|\bgo to (?:the|that) (?:link|article|story)\b/.test(text)) {
+    return { kind: "open", index: storyIndex(text) ?? undefined };
+  }
+  if (/\b(?:refresh|reload|update (?:the |my )?(?:paper|news|briefing)|new edition|latest news)\b/.test(text)) {
+    return { kind: "refresh" };
+  }
+  return null;
+}
+
+/** "the third story", "story 3", "number three", "the 3rd one", "the lead story" -> 0-based index. */
+function storyIndex(text: string) {
+  if (/\b(?:lead|top|main|headline)\b/.test(text)) return 0;
+  const ordinal = ORDINALS.findIndex((word) => new RegExp(`\\b${word}\\b`).test(text));
+  if (ordinal >= 0) return ordinal;
+  const digits = text.match(/\b(\d+)(?:st|nd|rd|th)?\b/);
+  if (digits) return Math.max(0, Number(digits[1]) - 1);
+  const number = NUMBERS.findIndex((word) => new RegExp(`\\b(?:story|number|item) ${word}\\b`).test(text));
+  return number >= 0 ? number : null;
+}
+
+/** Exact tag first, then singular/plural and partial matches ("tech" for "Technology"). */
+function matchTag(spoken: string, tags: string[]) {
+  const wanted = spoken.trim().toLowerCase();
+  const singular = (value: string) => value.replace(/s$/, "");
+  return (
+    tags.find((tag) => tag.toLowerCase() === wanted) ??
+    tags.find((tag) => singular(tag.toLowerCase()) === singular(wanted)) ??
+    tags.find((tag) => tag.toLowerCase().startsWith(wanted) || wanted.startsWith(tag.toLowerCase())) ??
+    null
+  );
+}
+
+function matchSection(spoken: string): NewsCategory | null {
+  const section = NEWS_SECTIONS.find((candidate) =>
+    [candidate.label, candidate.category, candidate.category === "Interest" ? "interests" : ""]
+      .filter(Boolean)
+      .some((name) => new RegExp(`\\b${name.toLowerCase()}\\b`).test(spoken))
+  );
+  return section?.category ?? null;
+}
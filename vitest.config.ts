@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts, whose dev-server plugin starts the delivery scheduler.
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts", "server/**/*.test.ts"],
+    environment: "node",
+  },
+});